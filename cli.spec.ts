@@ -0,0 +1,372 @@
+import { readdirSync } from "node:fs";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Project } from "fixturify-project";
+import { run } from "./cli";
+
+describe("cli", () => {
+  let project: Project;
+  let stdout: string[];
+  let stderr: string[];
+  const output = {
+    stdout: (line: string) => stdout.push(line),
+    stderr: (line: string) => stderr.push(line),
+  };
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+    project.files = {
+      "api.yaml": `paths:
+  /users:
+    get:
+      x-owner: identity
+      x-internal: true
+`,
+      "other.yaml": `paths:
+  /posts:
+    x-owner: content
+`,
+    };
+    await project.write();
+    stdout = [];
+    stderr = [];
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  it("prints matches as JSON by default", async () => {
+    const code = await run(["x-owner", `${project.baseDir}/api.yaml`], output);
+
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout.join("\n"))).toEqual([
+      {
+        path: "paths./users.get.x-owner",
+        rootFile: `${project.baseDir}/api.yaml`,
+        key: "x-owner",
+        value: "identity",
+        location: {
+          file: `${project.baseDir}/api.yaml`,
+          line: 4,
+          column: 7,
+          jsonPointer: "/paths/~1users/get/x-owner",
+        },
+        context: { pathTemplate: "/users", httpMethod: "get" },
+        via: [],
+      },
+    ]);
+  });
+
+  it("prints one JSON record per line with --format ndjson", async () => {
+    const code = await run(
+      ["x-owner", `${project.baseDir}/api.yaml`, `${project.baseDir}/other.yaml`, "--format", "ndjson"],
+      output,
+    );
+
+    expect(code).toBe(0);
+    expect(stdout.map((line) => JSON.parse(line).path)).toEqual([
+      "paths./users.get.x-owner",
+      "paths./posts.x-owner",
+    ]);
+  });
+
+  it("expands glob patterns", async () => {
+    const code = await run(["x-owner", `${project.baseDir}/*.yaml`, "-f", "ndjson"], output);
+
+    expect(code).toBe(0);
+    expect(stdout).toHaveLength(2);
+  });
+
+  it("searches directories, applying --exclude and --skip-ref-targets", async () => {
+    project.files = {
+      "api.yaml": `paths:
+  /users:
+    $ref: "./users.yaml"
+`,
+      "users.yaml": `x-owner: identity
+`,
+    };
+    await project.write();
+
+    const code = await run(
+      ["x-owner", project.baseDir, "--exclude", "other.yaml", "--skip-ref-targets", "-f", "ndjson"],
+      output,
+    );
+
+    expect(code).toBe(0);
+    expect(stdout.map((line) => JSON.parse(line).path)).toEqual(["paths./users.x-owner"]);
+  });
+
+  it("prints file:line locations with --format grep", async () => {
+    const code = await run(["x-owner,x-internal", `${project.baseDir}/api.yaml`, "-f", "grep"], output);
+
+    expect(code).toBe(0);
+    expect(stdout.map((line) => line.replace(/^.*api\.yaml/, "api.yaml"))).toEqual([
+      'api.yaml:4:7: paths./users.get.x-owner "identity"',
+      "api.yaml:5:7: paths./users.get.x-internal true",
+    ]);
+  });
+
+  it("prints an aligned table with --format table", async () => {
+    const code = await run(["^x-", `${project.baseDir}/api.yaml`, "--regex", "-f", "table"], output);
+
+    expect(code).toBe(0);
+    expect(stdout).toHaveLength(3);
+    expect(stdout[0]).toMatch(/^LOCATION\s+PATH\s+VALUE$/);
+    expect(stdout[1]).toMatch(/api\.yaml:4:7\s+paths\.\/users\.get\.x-owner\s+"identity"$/);
+    expect(stdout[0].indexOf("PATH")).toBe(stdout[1].indexOf("paths."));
+  });
+
+  it("applies --scope", async () => {
+    const code = await run(
+      ["x-owner", `${project.baseDir}/api.yaml`, `${project.baseDir}/other.yaml`, "-s", "paths.*", "-f", "ndjson"],
+      output,
+    );
+
+    expect(code).toBe(0);
+    expect(stdout.map((line) => JSON.parse(line).path)).toEqual(["paths./posts.x-owner"]);
+  });
+
+  it("reports Swagger 2.0 matches at OpenAPI 3 paths with --normalize-paths", async () => {
+    project.files = {
+      "swagger.yaml": `swagger: "2.0"
+definitions:
+  User:
+    x-owner: identity
+`,
+    };
+    await project.write();
+
+    const code = await run(["x-owner", `${project.baseDir}/swagger.yaml`, "--normalize-paths", "-f", "ndjson"], output);
+
+    expect(code).toBe(0);
+    expect(stdout.map((line) => JSON.parse(line).path)).toEqual(["components.schemas.User.x-owner"]);
+  });
+
+  it("writes paths in the format given by --path-format", async () => {
+    const code = await run(["x-owner", `${project.baseDir}/api.yaml`, "--path-format", "jsonPointer", "-f", "grep"], output);
+
+    expect(code).toBe(0);
+    expect(stdout).toEqual([expect.stringMatching(/api\.yaml:4:7: \/paths\/~1users\/get\/x-owner "identity"$/)]);
+  });
+
+  it("searches files concurrently with --concurrency, keeping the input order", async () => {
+    const code = await run(
+      ["x-owner", `${project.baseDir}/api.yaml`, `${project.baseDir}/other.yaml`, "--concurrency", "2", "-f", "ndjson"],
+      output,
+    );
+
+    expect(code).toBe(0);
+    expect(stdout.map((line) => JSON.parse(line).path)).toEqual([
+      "paths./users.get.x-owner",
+      "paths./posts.x-owner",
+    ]);
+  });
+
+  it("keeps parsed documents in the directory given by --cache-dir", async () => {
+    const args = ["x-owner", `${project.baseDir}/api.yaml`, "--cache-dir", `${project.baseDir}/.cache`];
+
+    expect(await run(args, output)).toBe(0);
+    expect(readdirSync(`${project.baseDir}/.cache`)).toEqual([expect.stringMatching(/^[0-9a-f]{64}\.yaml\.json$/)]);
+    expect(await run(args, output)).toBe(0);
+    expect(stdout[1]).toBe(stdout[0]);
+  });
+
+  it("prints schema violations with --schema", async () => {
+    project.files = {
+      "owner.schema.yaml": `type: string
+enum: [identity, platform]
+`,
+    };
+    await project.write();
+
+    const args = ["x-owner", `${project.baseDir}/api.yaml`, `${project.baseDir}/other.yaml`, "-f", "grep"];
+    const code = await run([...args, "--schema", `${project.baseDir}/owner.schema.yaml`], output);
+
+    expect(code).toBe(1);
+    expect(stdout).toEqual([
+      expect.stringMatching(/other\.yaml:3:5: paths\.\/posts\.x-owner: must be equal to one of the allowed values$/),
+    ]);
+  });
+
+  it("merges allOf entries into schema paths with --schema-paths", async () => {
+    await project.write({
+      "api.yaml": `components:
+  schemas:
+    Admin:
+      allOf:
+        - properties:
+            name:
+              x-pii: true
+`,
+    });
+    const args = ["x-pii", `${project.baseDir}/api.yaml`, "-f", "ndjson"];
+
+    expect(await run(args, output)).toBe(0);
+    expect(await run([...args, "--schema-paths"], output)).toBe(0);
+    expect(stdout.map((line) => JSON.parse(line).path)).toEqual([
+      "components.schemas.Admin.allOf.0.properties.name.x-pii",
+      "components.schemas.Admin.properties.name.x-pii",
+    ]);
+  });
+
+  it("lists nodes without the property with --missing", async () => {
+    expect(await run(["x-internal", `${project.baseDir}/api.yaml`, "--missing", "operation"], output)).toBe(0);
+    expect(stdout).toEqual(["[]"]);
+
+    stdout = [];
+    const code = await run(["x-sla", `${project.baseDir}/api.yaml`, "--missing", "operation", "-f", "grep"], output);
+
+    expect(code).toBe(1);
+    expect(stdout).toEqual([expect.stringMatching(/api\.yaml:3:5: paths\.\/users\.get$/)]);
+    expect(await run(["x-sla", `${project.baseDir}/api.yaml`, "--missing", "tag"], output)).toBe(2);
+    expect(stderr).toEqual([
+      'Unknown node kind "tag", expected one of: operation, pathItem, schema, parameter, response',
+    ]);
+  });
+
+  it("prints inherited values with --effective", async () => {
+    await project.write({
+      "api.yaml": `x-auth-scope: read
+paths:
+  /users:
+    x-auth-scope: users
+    get: {}
+  /health:
+    get: {}
+`,
+    });
+    const args = ["x-auth-scope", `${project.baseDir}/api.yaml`, "--effective", "operation", "-f", "grep"];
+
+    expect(await run(args, output)).toBe(0);
+    expect(stdout).toEqual([
+      expect.stringMatching(/api\.yaml:5:5: paths\.\/users\.get "users" \(pathItem paths\.\/users\.x-auth-scope\)$/),
+      expect.stringMatching(/api\.yaml:7:5: paths\.\/health\.get "read" \(document x-auth-scope\)$/),
+    ]);
+
+    stdout = [];
+    expect(await run([...args, "--precedence", "operation,pathItem"], output)).toBe(1);
+    expect(stdout[1]).toMatch(/paths\.\/health\.get -$/);
+    expect(await run([...args, "--precedence", "operation,server"], output)).toBe(2);
+    expect(stderr[0]).toMatch(/^Unknown inheritance level "server"/);
+  });
+
+  it("prints rule violations with --config, failing only on errors", async () => {
+    project.files = {
+      "rules.yaml": `rules:
+  operation-owner:
+    property: x-owner
+    require: operations
+  no-internal:
+    property: x-internal
+    forbid: true
+    severity: warning
+`,
+    };
+    await project.write();
+
+    const args = [`${project.baseDir}/api.yaml`, "--config", `${project.baseDir}/rules.yaml`, "-f", "grep"];
+    expect(await run(args, output)).toBe(0);
+    expect(stdout).toEqual([
+      expect.stringMatching(/api\.yaml:5:7: warning no-internal: paths\.\/users\.get\.x-internal: x-internal is not allowed here$/),
+    ]);
+
+    await project.write({ "api.yaml": "paths:\n  /users:\n    get: {}\n" });
+    stdout = [];
+    expect(await run([...args.slice(0, -2), "--check", "-f", "ndjson"], output)).toBe(1);
+    expect(stdout.map((line) => JSON.parse(line))).toEqual([
+      expect.objectContaining({ rule: "operation-owner", severity: "error", path: "paths./users.get", message: "Missing x-owner" }),
+    ]);
+  });
+
+  it("exits with 1 when nothing matches", async () => {
+    const code = await run(["x-missing", `${project.baseDir}/api.yaml`], output);
+
+    expect(code).toBe(1);
+    expect(stdout).toEqual(["[]"]);
+  });
+
+  it("inverts the exit code with --fail-on-match", async () => {
+    expect(await run(["x-internal", `${project.baseDir}/api.yaml`, "--fail-on-match"], output)).toBe(1);
+    expect(await run(["x-missing", `${project.baseDir}/api.yaml`, "--fail-on-match"], output)).toBe(0);
+  });
+
+  it("exits with 2 for invalid arguments", async () => {
+    expect(await run(["x-owner"], output)).toBe(2);
+    expect(await run(["x-owner", `${project.baseDir}/api.yaml`, "--format", "xml"], output)).toBe(2);
+    expect(await run(["x-owner", `${project.baseDir}/api.yaml`, "--unknown"], output)).toBe(2);
+    expect(await run(["x-owner", `${project.baseDir}/api.yaml`, "--on-error", "retry"], output)).toBe(2);
+    expect(await run(["x-owner", `${project.baseDir}/api.yaml`, "--timeout", "soon"], output)).toBe(2);
+    expect(await run(["x-owner", `${project.baseDir}/api.yaml`, "--path-format", "xpath"], output)).toBe(2);
+    expect(await run(["x-owner", `${project.baseDir}/api.yaml`, "--concurrency", "0"], output)).toBe(2);
+    expect(stderr.join("\n")).toContain('Unknown format "xml"');
+  });
+
+  it("reports problems on stderr and carries on with --on-error collect", async () => {
+    const code = await run(
+      ["x-owner", `${project.baseDir}/missing.yaml`, `${project.baseDir}/other.yaml`, "--on-error", "collect", "-f", "ndjson"],
+      output,
+    );
+
+    expect(code).toBe(0);
+    expect(stdout).toHaveLength(1);
+    expect(stderr).toHaveLength(1);
+    expect(stderr[0]).toMatch(/^warning: .*missing\.yaml: unreadable-file: ENOENT/);
+  });
+
+  it("passes remote loading flags to the http loader", async () => {
+    project.files = {
+      "remote.yaml": `paths:
+  /users:
+    $ref: "https://example.com/users.yaml"
+`,
+    };
+    await project.write();
+
+    const code = await run(["x-owner", `${project.baseDir}/remote.yaml`, "--offline", "--on-error", "collect"], output);
+
+    expect(code).toBe(1);
+    expect(stderr).toEqual([
+      expect.stringMatching(/remote\.yaml:3:5: unreadable-file: Cannot load https:\/\/example\.com\/users\.yaml in offline mode$/),
+    ]);
+  });
+
+  it("prints remote locations as URLs", async () => {
+    const server = createServer((request, response) => {
+      if (request.url !== "/api.yaml") {
+        response.statusCode = 404;
+        response.end();
+        return;
+      }
+      response.end(`paths:
+  /users:
+    x-owner: identity
+    get:
+      $ref: "./missing.yaml"
+`);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    try {
+      const code = await run(["x-owner", `${baseUrl}/api.yaml`, "-f", "grep", "--on-error", "collect"], output);
+
+      expect(code).toBe(0);
+      expect(stdout).toEqual([`${baseUrl}/api.yaml:3:5: paths./users.x-owner "identity"`]);
+      expect(stderr).toEqual([
+        expect.stringMatching(new RegExp(`^warning: ${baseUrl}/api\\.yaml:5:7: unreadable-file: `)),
+      ]);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("exits with 2 when a file cannot be read", async () => {
+    const code = await run(["x-owner", `${project.baseDir}/missing.yaml`], output);
+
+    expect(code).toBe(2);
+    expect(stderr[0]).toContain("ENOENT");
+  });
+});
@@ -0,0 +1,633 @@
+#!/usr/bin/env node
+import { realpathSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { relative } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+
+import { parse as parseYaml } from "yaml";
+
+import {
+  createFinder,
+  type ErrorPolicy,
+  expandFilePaths,
+  type IDiagnostic,
+  type IEffectiveValue,
+  type IFinderQueryOptions,
+  type IMatch,
+  type INode,
+  type InheritanceLevel,
+  INHERITANCE_LEVELS,
+  type IRuleViolation,
+  type ISourceLocation,
+  type IViolation,
+  isUrl,
+  loadRules,
+  NODE_KINDS,
+  type NodeKind,
+  type PathFormat,
+  type PropertyMatcher,
+} from "./index.js";
+
+const USAGE = `Usage: openapi-field-finder [options] <property> <files/directories/globs/urls...>
+       openapi-field-finder --check [options] <files/directories/globs/urls...>
+
+Finds every occurrence of <property> in OpenAPI/YAML/JSON files, following $refs.
+<property> may list several keys separated by commas (x-internal,x-beta).
+
+Options:
+  -f, --format <format>  Output format: json, ndjson, table or grep (default: json)
+  -r, --regex            Treat <property> as a regular expression
+  -s, --scope <pattern>  Only report matches under this path pattern (repeatable)
+      --include <glob>   Files to search in directories (repeatable, default:
+                         YAML and JSON files)
+      --exclude <glob>   Files to leave out of directories and globs
+                         (repeatable, default: node_modules)
+      --skip-ref-targets Do not search files reached through $refs from
+                         other searched files on their own
+      --dedupe-targets   Walk each $ref target at most once per root file
+      --concurrency <n>  Search up to n files at the same time (default: 1)
+      --cache-dir <dir>  Keep parsed documents in this directory between runs
+      --normalize-paths  Report Swagger 2.0 matches at their OpenAPI 3 paths
+      --schema-paths     Report paths within schemas with allOf entries merged
+                         and oneOf/anyOf entries named after their $ref
+      --path-format <format>
+                         How paths are written: dot, jsonPointer, segments or
+                         jsonPath (default: dot)
+      --allow-host <host>
+                         Only fetch remote $refs from this host (repeatable)
+      --timeout <ms>     Timeout for each remote request (default: 10000)
+      --offline          Never fetch remote $refs
+      --on-error <policy>
+                         throw (stop at the first unreadable file), collect
+                         (report problems on stderr and carry on) or ignore
+                         (default: throw)
+      --missing <kind>   List the nodes of this kind without <property>
+                         instead: operation, pathItem, schema, parameter or
+                         response
+      --effective <kind> Print the value of <property> that applies to each
+                         node of this kind, set on it or inherited
+      --precedence <levels>
+                         Where --effective takes values from, nearest first,
+                         separated by commas (e.g. operation,pathItem,document)
+      --schema <file>    Check every found value against this JSON Schema
+                         (YAML or JSON) and print the violations instead
+      --check            Check the rules of the nearest .fieldfinderrc.yaml
+                         and print the violations instead of searching
+      --config <file>    Rules file to check (implies --check)
+      --fail-on-match    Exit with 1 when matches are found instead of when none are
+  -h, --help             Show this help
+
+Exit codes:
+  0  matches found (or none, with --fail-on-match); no nodes with --missing;
+     a value for every node with --effective;
+     no violations with --schema; no errors with --check
+  1  no matches found (or some, with --fail-on-match); nodes with --missing;
+     nodes without a value with --effective;
+     violations with --schema; errors with --check
+  2  invalid arguments or a file could not be searched`;
+
+const FORMATS = ["json", "ndjson", "table", "grep"] as const;
+
+type OutputFormat = (typeof FORMATS)[number];
+
+const ERROR_POLICIES: readonly ErrorPolicy[] = ["throw", "collect", "ignore"];
+
+const PATH_FORMATS: readonly PathFormat[] = ["dot", "jsonPointer", "segments", "jsonPath"];
+
+/**
+ * Where the CLI writes its output. Each call writes one line.
+ */
+export interface ICliOutput {
+  stdout: (line: string) => void;
+  stderr: (line: string) => void;
+}
+
+const processOutput: ICliOutput = {
+  stdout: (line) => process.stdout.write(`${line}\n`),
+  stderr: (line) => process.stderr.write(`${line}\n`),
+};
+
+/**
+ * Builds the property matcher from the `<property>` argument.
+ *
+ * @example
+ * toPropertyMatcher('x-internal,x-beta', false)
+ * // Returns: ['x-internal', 'x-beta']
+ *
+ * @example
+ * toPropertyMatcher('^x-', true)
+ * // Returns: /^x-/
+ */
+const toPropertyMatcher = (property: string, regex: boolean): PropertyMatcher => {
+  if (regex) {
+    return new RegExp(property);
+  }
+  const keys = property.split(",").filter((key) => key.length > 0);
+  return keys.length === 1 ? keys[0] : keys;
+};
+
+/**
+ * Converts a match into the plain record printed by the json and ndjson
+ * formats. The parent object is left out since it repeats the value.
+ */
+const toOutputRecord = (match: IMatch<unknown>) => ({
+  path: match.path,
+  rootFile: match.rootFile,
+  key: match.key,
+  value: match.value,
+  location: match.location,
+  context: match.context,
+  via: match.via,
+});
+
+/**
+ * Converts a node into the plain record printed by the json and ndjson
+ * formats. The node itself is left out, like the parent of a match.
+ */
+const toNodeRecord = (node: INode) => ({
+  path: node.path,
+  rootFile: node.rootFile,
+  location: node.location,
+  context: node.context,
+  via: node.via,
+});
+
+/**
+ * Converts an effective value into the plain record printed by the json and
+ * ndjson formats. `value`, `source` and `sourcePath` are absent for nodes
+ * without a value.
+ */
+const toEffectiveValueRecord = (effective: IEffectiveValue<unknown>) => ({
+  path: effective.node.path,
+  rootFile: effective.node.rootFile,
+  location: effective.node.location,
+  value: effective.value,
+  source: effective.source,
+  sourcePath: effective.match?.path,
+  sourceLocation: effective.match?.location,
+});
+
+/**
+ * Converts a violation into the plain record printed by the json and ndjson formats.
+ */
+const toViolationRecord = (violation: IViolation) => ({
+  path: violation.path,
+  rootFile: violation.match.rootFile,
+  valuePointer: violation.valuePointer,
+  keyword: violation.keyword,
+  message: violation.message,
+  location: violation.location,
+});
+
+/**
+ * Converts a rule violation into the plain record printed by the json and ndjson formats.
+ */
+const toRuleViolationRecord = (violation: IRuleViolation) => ({
+  rule: violation.rule,
+  severity: violation.severity,
+  message: violation.message,
+  path: violation.path,
+  rootFile: violation.rootFile,
+  location: violation.location,
+  context: violation.context,
+});
+
+/**
+ * Formats a file path relative to the working directory. URLs are kept as they are.
+ */
+const formatFile = (file: string): string => (isUrl(file) ? file : relative(process.cwd(), file));
+
+/**
+ * Formats a source location as `file:line:column`, relative to the working directory.
+ */
+const formatLocation = (location: ISourceLocation): string =>
+  `${formatFile(location.file)}:${location.line}:${location.column}`;
+
+/**
+ * Lays out rows as columns separated by two spaces. The last column is not padded.
+ *
+ * @example
+ * formatTable([['LOCATION', 'PATH', 'VALUE'], ['api.yaml:4:7', 'paths./users.get.x-owner', '"identity"']])
+ * // Returns: [
+ * //   'LOCATION      PATH                      VALUE',
+ * //   'api.yaml:4:7  paths./users.get.x-owner  "identity"'
+ * // ]
+ */
+const formatTable = (rows: string[][]): string[] => {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows.map((row) =>
+    row.map((cell, column) => (column === row.length - 1 ? cell : cell.padEnd(widths[column]))).join("  "),
+  );
+};
+
+/**
+ * Formats a diagnostic as a warning line, pointing at the referring $ref when there is one.
+ *
+ * @example
+ * formatDiagnostic(diagnostic)
+ * // Returns: 'warning: api.yaml:3:5: unreadable-file: ENOENT: no such file or directory, ...'
+ */
+const formatDiagnostic = (diagnostic: IDiagnostic): string => {
+  const where = diagnostic.location
+    ? formatLocation(diagnostic.location)
+    : formatFile(diagnostic.file);
+  return `warning: ${where}: ${diagnostic.kind}: ${diagnostic.message}`;
+};
+
+/**
+ * Renders matches as lines in the requested format.
+ *
+ * @example
+ * formatMatches(matches, 'grep')
+ * // Returns: ['api.yaml:4:7: paths./users.get.x-owner "identity"']
+ */
+const formatMatches = (
+  matches: IMatch<unknown>[],
+  format: OutputFormat,
+): string[] => {
+  switch (format) {
+    case "json":
+      return [JSON.stringify(matches.map(toOutputRecord), null, 2)];
+    case "ndjson":
+      return matches.map((match) => JSON.stringify(toOutputRecord(match)));
+    case "grep":
+      return matches.map(
+        (match) => `${formatLocation(match.location)}: ${match.path} ${JSON.stringify(match.value)}`,
+      );
+    case "table":
+      return formatTable([
+        ["LOCATION", "PATH", "VALUE"],
+        ...matches.map((match) => [
+          formatLocation(match.location),
+          match.path,
+          JSON.stringify(match.value),
+        ]),
+      ]);
+  }
+};
+
+/**
+ * Renders nodes without the property as lines in the requested format.
+ *
+ * @example
+ * formatNodes(nodes, 'grep')
+ * // Returns: ['api.yaml:3:5: paths./users.get']
+ */
+const formatNodes = (nodes: INode[], format: OutputFormat): string[] => {
+  switch (format) {
+    case "json":
+      return [JSON.stringify(nodes.map(toNodeRecord), null, 2)];
+    case "ndjson":
+      return nodes.map((node) => JSON.stringify(toNodeRecord(node)));
+    case "grep":
+      return nodes.map((node) => `${formatLocation(node.location)}: ${node.path}`);
+    case "table":
+      return formatTable([
+        ["LOCATION", "PATH"],
+        ...nodes.map((node) => [formatLocation(node.location), node.path]),
+      ]);
+  }
+};
+
+/**
+ * Renders effective values as lines in the requested format. Nodes without a value show `-`.
+ *
+ * @example
+ * formatEffectiveValues(values, 'grep')
+ * // Returns: ['api.yaml:5:5: paths./users.get "users" (pathItem paths./users.x-auth-scope)']
+ */
+const formatEffectiveValues = (
+  values: IEffectiveValue<unknown>[],
+  format: OutputFormat,
+): string[] => {
+  const describe = (effective: IEffectiveValue<unknown>) =>
+    effective.match ? `${effective.source} ${effective.match.path}` : "-";
+  switch (format) {
+    case "json":
+      return [JSON.stringify(values.map(toEffectiveValueRecord), null, 2)];
+    case "ndjson":
+      return values.map((effective) => JSON.stringify(toEffectiveValueRecord(effective)));
+    case "grep":
+      return values.map((effective) =>
+        effective.match
+          ? `${formatLocation(effective.node.location)}: ${effective.node.path} ${JSON.stringify(effective.value)} (${describe(effective)})`
+          : `${formatLocation(effective.node.location)}: ${effective.node.path} -`,
+      );
+    case "table":
+      return formatTable([
+        ["LOCATION", "PATH", "VALUE", "FROM"],
+        ...values.map((effective) => [
+          formatLocation(effective.node.location),
+          effective.node.path,
+          effective.match ? JSON.stringify(effective.value) : "-",
+          describe(effective),
+        ]),
+      ]);
+  }
+};
+
+/**
+ * Renders schema violations as lines in the requested format.
+ *
+ * @example
+ * formatViolations(violations, 'grep')
+ * // Returns: ['api.yaml:5:7: paths./users.x-rate-limit: must be integer']
+ */
+const formatViolations = (
+  violations: IViolation[],
+  format: OutputFormat,
+): string[] => {
+  switch (format) {
+    case "json":
+      return [JSON.stringify(violations.map(toViolationRecord), null, 2)];
+    case "ndjson":
+      return violations.map((violation) => JSON.stringify(toViolationRecord(violation)));
+    case "grep":
+      return violations.map(
+        (violation) => `${formatLocation(violation.location)}: ${violation.path}: ${violation.message}`,
+      );
+    case "table":
+      return formatTable([
+        ["LOCATION", "PATH", "MESSAGE"],
+        ...violations.map((violation) => [
+          formatLocation(violation.location),
+          violation.path,
+          violation.message,
+        ]),
+      ]);
+  }
+};
+
+/**
+ * Renders rule violations as lines in the requested format.
+ *
+ * @example
+ * formatRuleViolations(violations, 'grep')
+ * // Returns: ['api.yaml:3:5: error operation-owner: paths./users.get: Missing x-owner']
+ */
+const formatRuleViolations = (
+  violations: IRuleViolation[],
+  format: OutputFormat,
+): string[] => {
+  switch (format) {
+    case "json":
+      return [JSON.stringify(violations.map(toRuleViolationRecord), null, 2)];
+    case "ndjson":
+      return violations.map((violation) => JSON.stringify(toRuleViolationRecord(violation)));
+    case "grep":
+      return violations.map(
+        (violation) =>
+          `${formatLocation(violation.location)}: ${violation.severity} ${violation.rule}: ${violation.path}: ${violation.message}`,
+      );
+    case "table":
+      return formatTable([
+        ["LOCATION", "SEVERITY", "RULE", "PATH", "MESSAGE"],
+        ...violations.map((violation) => [
+          formatLocation(violation.location),
+          violation.severity,
+          violation.rule,
+          violation.path,
+          violation.message,
+        ]),
+      ]);
+  }
+};
+
+/**
+ * Runs the command line interface.
+ *
+ * @param args - Command line arguments, without the node and script paths
+ * @param output - Where to write results and errors
+ * @returns The process exit code
+ *
+ * @example
+ * const code = await run(['x-owner', 'specs/*.yaml', '--format', 'grep'])
+ * // Prints: specs/api.yaml:4:7: paths./users.get.x-owner "identity"
+ * // Returns: 0
+ */
+export const run = async (
+  args: string[],
+  output: ICliOutput = processOutput,
+): Promise<number> => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        format: { type: "string", short: "f", default: "json" },
+        regex: { type: "boolean", short: "r", default: false },
+        scope: { type: "string", short: "s", multiple: true },
+        include: { type: "string", multiple: true },
+        exclude: { type: "string", multiple: true },
+        "skip-ref-targets": { type: "boolean", default: false },
+        "dedupe-targets": { type: "boolean", default: false },
+        concurrency: { type: "string" },
+        "cache-dir": { type: "string" },
+        "normalize-paths": { type: "boolean", default: false },
+        "schema-paths": { type: "boolean", default: false },
+        "path-format": { type: "string", default: "dot" },
+        "on-error": { type: "string", default: "throw" },
+        "allow-host": { type: "string", multiple: true },
+        timeout: { type: "string" },
+        offline: { type: "boolean", default: false },
+        missing: { type: "string" },
+        effective: { type: "string" },
+        precedence: { type: "string" },
+        schema: { type: "string" },
+        check: { type: "boolean", default: false },
+        config: { type: "string" },
+        "fail-on-match": { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (error) {
+    output.stderr((error as Error).message);
+    output.stderr(USAGE);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    output.stdout(USAGE);
+    return 0;
+  }
+
+  const check = values.check || values.config !== undefined;
+  const [property, ...inputs] = check ? ["", ...positionals] : positionals;
+  if ((!check && !property) || inputs.length === 0) {
+    output.stderr(USAGE);
+    return 2;
+  }
+
+  if (!(FORMATS as readonly string[]).includes(values.format)) {
+    output.stderr(
+      `Unknown format "${values.format}", expected one of: ${FORMATS.join(", ")}`,
+    );
+    return 2;
+  }
+
+  const onError = values["on-error"] as ErrorPolicy;
+  if (!ERROR_POLICIES.includes(onError)) {
+    output.stderr(
+      `Unknown error policy "${onError}", expected one of: ${ERROR_POLICIES.join(", ")}`,
+    );
+    return 2;
+  }
+
+  const pathFormat = values["path-format"] as PathFormat;
+  if (!PATH_FORMATS.includes(pathFormat)) {
+    output.stderr(
+      `Unknown path format "${pathFormat}", expected one of: ${PATH_FORMATS.join(", ")}`,
+    );
+    return 2;
+  }
+
+  const timeout = values.timeout === undefined ? undefined : Number(values.timeout);
+  if (timeout !== undefined && !(Number.isInteger(timeout) && timeout > 0)) {
+    output.stderr(`Invalid timeout "${values.timeout}", expected a positive number of milliseconds`);
+    return 2;
+  }
+
+  const missing = values.missing as NodeKind | undefined;
+  if (missing !== undefined && !NODE_KINDS.includes(missing)) {
+    output.stderr(`Unknown node kind "${missing}", expected one of: ${NODE_KINDS.join(", ")}`);
+    return 2;
+  }
+
+  const effective = values.effective as NodeKind | undefined;
+  if (effective !== undefined && !NODE_KINDS.includes(effective)) {
+    output.stderr(`Unknown node kind "${effective}", expected one of: ${NODE_KINDS.join(", ")}`);
+    return 2;
+  }
+
+  const precedence = values.precedence?.split(",") as InheritanceLevel[] | undefined;
+  const unknownLevel = precedence?.find((level) => !INHERITANCE_LEVELS.includes(level));
+  if (unknownLevel !== undefined) {
+    output.stderr(
+      `Unknown inheritance level "${unknownLevel}", expected one of: ${INHERITANCE_LEVELS.join(", ")}`,
+    );
+    return 2;
+  }
+
+  const concurrency = values.concurrency === undefined ? undefined : Number(values.concurrency);
+  if (concurrency !== undefined && !(Number.isInteger(concurrency) && concurrency > 0)) {
+    output.stderr(`Invalid concurrency "${values.concurrency}", expected a positive integer`);
+    return 2;
+  }
+
+  let matches: IMatch<unknown>[] = [];
+  let violations: IViolation[] | undefined;
+  let ruleViolations: IRuleViolation[] | undefined;
+  let missingNodes: INode[] | undefined;
+  let effectiveValues: IEffectiveValue<unknown>[] | undefined;
+  try {
+    const files = await expandFilePaths(inputs, { include: values.include, exclude: values.exclude });
+    if (files.length === 0) {
+      output.stderr(`No files matched: ${inputs.join(" ")}`);
+      return 2;
+    }
+    const finder = createFinder({
+      cache: { directory: values["cache-dir"] },
+      http: {
+        allowedHosts: values["allow-host"],
+        timeout,
+        offline: values.offline,
+      },
+    });
+    const propertyToFind = toPropertyMatcher(property, values.regex);
+    const searchOptions: IFinderQueryOptions = {
+      scope: values.scope,
+      skipRefTargets: values["skip-ref-targets"],
+      dedupeTargets: values["dedupe-targets"],
+      concurrency,
+      normalizePaths: values["normalize-paths"],
+      schemaPaths: values["schema-paths"],
+      pathFormat,
+      onError,
+    };
+    if (check) {
+      const rules = await loadRules(values.config);
+      const { scope: _scope, ...ruleOptions } = searchOptions;
+      const report = await finder.checkRules(files, rules, ruleOptions);
+      ruleViolations = report.violations;
+      for (const diagnostic of report.diagnostics) {
+        output.stderr(formatDiagnostic(diagnostic));
+      }
+    } else if (missing !== undefined) {
+      missingNodes = await finder.findMissing(propertyToFind, files, {
+        ...searchOptions,
+        at: missing,
+        onDiagnostic: (diagnostic) => output.stderr(formatDiagnostic(diagnostic)),
+      });
+    } else if (effective !== undefined) {
+      const { scope: _scope, ...effectiveOptions } = searchOptions;
+      effectiveValues = await finder.findEffectiveValues(propertyToFind, files, {
+        ...effectiveOptions,
+        at: effective,
+        precedence,
+        onDiagnostic: (diagnostic) => output.stderr(formatDiagnostic(diagnostic)),
+      });
+    } else if (values.schema === undefined) {
+      const report = await finder.search(propertyToFind, files, searchOptions);
+      matches = report.matches;
+      for (const diagnostic of report.diagnostics) {
+        output.stderr(formatDiagnostic(diagnostic));
+      }
+    } else {
+      const schema = parseYaml(await readFile(values.schema, "utf-8"));
+      violations = await finder.validate(propertyToFind, files, schema, {
+        ...searchOptions,
+        onDiagnostic: (diagnostic) => output.stderr(formatDiagnostic(diagnostic)),
+      });
+    }
+  } catch (error) {
+    output.stderr((error as Error).message);
+    return 2;
+  }
+
+  if (ruleViolations) {
+    for (const line of formatRuleViolations(ruleViolations, values.format as OutputFormat)) {
+      output.stdout(line);
+    }
+    return ruleViolations.some((violation) => violation.severity === "error") ? 1 : 0;
+  }
+
+  if (effectiveValues) {
+    for (const line of formatEffectiveValues(effectiveValues, values.format as OutputFormat)) {
+      output.stdout(line);
+    }
+    return effectiveValues.every((value) => value.match !== undefined) ? 0 : 1;
+  }
+
+  if (missingNodes) {
+    for (const line of formatNodes(missingNodes, values.format as OutputFormat)) {
+      output.stdout(line);
+    }
+    return missingNodes.length > 0 ? 1 : 0;
+  }
+
+  if (violations) {
+    for (const line of formatViolations(violations, values.format as OutputFormat)) {
+      output.stdout(line);
+    }
+    return violations.length > 0 ? 1 : 0;
+  }
+
+  for (const line of formatMatches(matches, values.format as OutputFormat)) {
+    output.stdout(line);
+  }
+
+  const found = matches.length > 0;
+  return found === values["fail-on-match"] ? 1 : 0;
+};
+
+const isMainModule =
+  process.argv[1] !== undefined &&
+  import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href;
+
+if (isMainModule) {
+  process.exitCode = await run(process.argv.slice(2));
+}
@@ -1,6 +1,39 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createHash } from "node:crypto";
+import { mkdir, readFile, utimes, writeFile } from "node:fs/promises";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { watch as watchFileSystem } from "node:fs";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { Project } from "fixturify-project";
-import { find, findWithCallback } from "./index";
+import {
+  bundle,
+  checkRules,
+  createFinder,
+  dereference,
+  expandFilePaths,
+  find,
+  findByFile,
+  findEffectiveValues,
+  findIter,
+  findMatches,
+  findMissing,
+  findWithCallback,
+  formatPath,
+  type IMatchChanges,
+  type IWatcher,
+  loadRules,
+  parsePath,
+  search,
+  update,
+  validate,
+  watch,
+} from "./index";
+
+// Lets the watch tests see which directories are watched
+vi.mock("node:fs", async (importOriginal) => {
+  const fs = await importOriginal<typeof import("node:fs")>();
+  return { ...fs, watch: vi.fn(fs.watch) };
+});
 
 describe("find", () => {
   let project: Project;
@@ -235,9 +268,11 @@ components:
         callbackResults[path] = content;
       });
 
-      // Found at both the path via refs and at the original component location
+      // Found at the path via refs, via the path item component, and at the
+      // original component location
       expect(results).toEqual({
         "paths./users.get.x-custom": { message: "nested ref" },
+        "components.pathItems.Users.get.x-custom": { message: "nested ref" },
         "components.operations.GetUsers.x-custom": { message: "nested ref" },
       });
       expect(callbackResults).toEqual(results);
@@ -324,6 +359,83 @@ paths:
       expect(results).toEqual({});
       expect(callbackResults).toEqual(results);
     });
+
+    it("reports every location that reaches a shared $ref target", async () => {
+      project.files = {
+        "api.yaml": `
+paths:
+  /users:
+    $ref: "#/components/pathItems/Users"
+  /people:
+    $ref: "#/components/pathItems/Users"
+  /search:
+    get:
+      parameters:
+        - $ref: "#/components/parameters/Limit"
+    post:
+      parameters:
+        - $ref: "#/components/parameters/Limit"
+components:
+  pathItems:
+    Users:
+      x-custom:
+        message: shared path item
+  parameters:
+    Limit:
+      name: limit
+      x-custom:
+        message: shared parameter
+`,
+      };
+      await project.write();
+
+      const results = await find("x-custom", [`${project.baseDir}/api.yaml`]);
+      const callbackResults: Record<string, unknown> = {};
+      await findWithCallback("x-custom", [`${project.baseDir}/api.yaml`], (path, content) => {
+        callbackResults[path] = content;
+      });
+
+      expect(results).toEqual({
+        "paths./users.x-custom": { message: "shared path item" },
+        "paths./people.x-custom": { message: "shared path item" },
+        "paths./search.get.parameters.0.Limit.x-custom": { message: "shared parameter" },
+        "paths./search.post.parameters.0.Limit.x-custom": { message: "shared parameter" },
+        "components.pathItems.Users.x-custom": { message: "shared path item" },
+        "components.parameters.Limit.x-custom": { message: "shared parameter" },
+      });
+      expect(callbackResults).toEqual(results);
+    });
+
+    it("walks each $ref target once when dedupeTargets is set", async () => {
+      project.files = {
+        "api.yaml": `
+paths:
+  /users:
+    $ref: "#/components/pathItems/Users"
+  /people:
+    $ref: "#/components/pathItems/Users"
+components:
+  pathItems:
+    Users:
+      x-custom:
+        message: shared path item
+`,
+      };
+      await project.write();
+
+      const options = { dedupeTargets: true };
+      const results = await find("x-custom", [`${project.baseDir}/api.yaml`], options);
+      const callbackResults: Record<string, unknown> = {};
+      await findWithCallback("x-custom", [`${project.baseDir}/api.yaml`], (path, content) => {
+        callbackResults[path] = content;
+      }, options);
+
+      expect(results).toEqual({
+        "paths./users.x-custom": { message: "shared path item" },
+        "components.pathItems.Users.x-custom": { message: "shared path item" },
+      });
+      expect(callbackResults).toEqual(results);
+    });
   });
 
   describe("resolveExternalRef - external file references", () => {
@@ -1014,12 +1126,11 @@ components:
         entityCallbackResults[path] = content;
       });
 
-      // x-entity is found at the original location and via the $ref chain
-      // Note: components.schemas.UserList.items.x-entity is not included because
-      // the circular reference detection marks #/components/schemas/User as visited
-      // before traversing UserList.items (since User is traversed first alphabetically)
+      // x-entity is found at the original location and via every $ref chain
+      // that reaches it
       expect(entityResults).toEqual({
         "components.schemas.User.x-entity": true,
+        "components.schemas.UserList.items.x-entity": true,
         "paths./users.get.responses.200.content.application/json.schema.items.x-entity": true,
       });
       expect(entityCallbackResults).toEqual(entityResults);
@@ -1444,3 +1555,3301 @@ paths:
     expect(capturedContent!.code).toBe(200);
   });
 });
+
+describe("findMatches", () => {
+  let project: Project;
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  it("returns a match record with path, value, parent and location", async () => {
+    project.files = {
+      "api.yaml": `paths:
+  /users:
+    get:
+      x-custom:
+        message: hello
+`,
+    };
+    await project.write();
+
+    const matches = await findMatches("x-custom", [`${project.baseDir}/api.yaml`]);
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0].path).toBe("paths./users.get.x-custom");
+    expect(matches[0].value).toEqual({ message: "hello" });
+    expect(matches[0].parent).toHaveProperty("x-custom");
+    expect(matches[0].location).toEqual({
+      file: `${project.baseDir}/api.yaml`,
+      line: 4,
+      column: 7,
+      jsonPointer: "/paths/~1users/get/x-custom",
+    });
+  });
+
+  it("locates matches in JSON files", async () => {
+    project.files = {
+      "api.json": JSON.stringify(
+        { paths: { "/users": { "x-custom": { message: "hello" } } } },
+        null,
+        2,
+      ),
+    };
+    await project.write();
+
+    const matches = await findMatches("x-custom", [`${project.baseDir}/api.json`]);
+
+    expect(matches.map((m) => m.location)).toEqual([
+      {
+        file: `${project.baseDir}/api.json`,
+        line: 4,
+        column: 7,
+        jsonPointer: "/paths/~1users/x-custom",
+      },
+    ]);
+  });
+
+  it("locates matches inside array entries", async () => {
+    project.files = {
+      "api.yaml": `paths:
+  /users:
+    get:
+      parameters:
+        - name: limit
+        - name: offset
+          x-custom: true
+`,
+    };
+    await project.write();
+
+    const matches = await findMatches("x-custom", [`${project.baseDir}/api.yaml`]);
+
+    expect(matches[0].path).toBe("paths./users.get.parameters.1.x-custom");
+    expect(matches[0].location).toMatchObject({
+      line: 7,
+      column: 11,
+      jsonPointer: "/paths/~1users/get/parameters/1/x-custom",
+    });
+  });
+
+  it("reports the target of a local $ref as the location", async () => {
+    project.files = {
+      "api.yaml": `paths:
+  /users:
+    $ref: "#/components/pathItems/Users"
+components:
+  pathItems:
+    Users:
+      x-custom: from ref
+`,
+    };
+    await project.write();
+
+    const matches = await findMatches("x-custom", [`${project.baseDir}/api.yaml`]);
+
+    expect(matches.map((m) => [m.path, m.location.line, m.location.jsonPointer])).toEqual([
+      ["paths./users.x-custom", 7, "/components/pathItems/Users/x-custom"],
+      ["components.pathItems.Users.x-custom", 7, "/components/pathItems/Users/x-custom"],
+    ]);
+  });
+
+  it("reports the external file as the location for external $refs", async () => {
+    project.files = {
+      "api.yaml": `paths:
+  /users:
+    $ref: "./paths/users.yaml"
+  /posts:
+    $ref: "./shared.json#/Posts"
+`,
+      paths: {
+        "users.yaml": `get:
+  summary: Get users
+  x-custom: from yaml
+`,
+      },
+      "shared.json": `{
+  "Posts": {
+    "x-custom": "from json"
+  }
+}`,
+    };
+    await project.write();
+
+    const matches = await findMatches("x-custom", [`${project.baseDir}/api.yaml`]);
+
+    expect(matches.map((m) => ({ path: m.path, location: m.location }))).toEqual([
+      {
+        path: "paths./users.get.x-custom",
+        location: {
+          file: `${project.baseDir}/paths/users.yaml`,
+          line: 3,
+          column: 3,
+          jsonPointer: "/get/x-custom",
+        },
+      },
+      {
+        path: "paths./posts.x-custom",
+        location: {
+          file: `${project.baseDir}/shared.json`,
+          line: 3,
+          column: 5,
+          jsonPointer: "/Posts/x-custom",
+        },
+      },
+    ]);
+  });
+
+  it("passes the match record to findWithCallback callbacks", async () => {
+    project.files = {
+      "api.yaml": `paths:
+  /users:
+    x-custom: hello
+`,
+    };
+    await project.write();
+
+    const matches = await findMatches("x-custom", [`${project.baseDir}/api.yaml`]);
+    const callbackMatches: unknown[] = [];
+    await findWithCallback("x-custom", [`${project.baseDir}/api.yaml`], (path, content, parent, match) => {
+      callbackMatches.push(match);
+    });
+
+    expect(callbackMatches).toEqual(matches);
+  });
+});
+
+describe("property matchers", () => {
+  let project: Project;
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+    project.files = {
+      "api.yaml": `
+paths:
+  /users:
+    x-internal: true
+    get:
+      x-beta: true
+      x-owner:
+        team: identity
+        x-nested: ignored
+      summary: List users
+`,
+    };
+    await project.write();
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  it("matches any of several keys", async () => {
+    const results = await find(["x-internal", "x-beta"], [`${project.baseDir}/api.yaml`]);
+
+    expect(results).toEqual({
+      "paths./users.x-internal": true,
+      "paths./users.get.x-beta": true,
+    });
+  });
+
+  it("matches keys with a regular expression", async () => {
+    const results = await find(/^x-/g, [`${project.baseDir}/api.yaml`]);
+
+    // Values of matched properties are not searched, so x-nested is not reported
+    expect(results).toEqual({
+      "paths./users.x-internal": true,
+      "paths./users.get.x-beta": true,
+      "paths./users.get.x-owner": { team: "identity", "x-nested": "ignored" },
+    });
+  });
+
+  it("matches keys with a predicate receiving key, value and path", async () => {
+    const calls: Array<[string, unknown, string]> = [];
+    const results = await find(
+      (key, value, path) => {
+        calls.push([key, value, path]);
+        return key.startsWith("x-") && value === true;
+      },
+      [`${project.baseDir}/api.yaml`],
+    );
+
+    expect(results).toEqual({
+      "paths./users.x-internal": true,
+      "paths./users.get.x-beta": true,
+    });
+    expect(calls).toContainEqual(["summary", "List users", "paths./users.get.summary"]);
+  });
+
+  it("reports which key each match hit", async () => {
+    const matches = await findMatches(["x-internal", "x-beta"], [`${project.baseDir}/api.yaml`]);
+    const callbackKeys: string[] = [];
+    await findWithCallback(/^x-(internal|beta)$/, [`${project.baseDir}/api.yaml`], (path, content, parent, match) => {
+      callbackKeys.push(match.key);
+    });
+
+    expect(matches.map((m) => m.key)).toEqual(["x-internal", "x-beta"]);
+    expect(callbackKeys).toEqual(["x-internal", "x-beta"]);
+  });
+});
+
+describe("scope option", () => {
+  let project: Project;
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+    project.files = {
+      "api.yaml": `
+x-rate-limit: 1000
+paths:
+  /users:
+    x-rate-limit: 100
+    get:
+      x-rate-limit: 10
+      example: path example
+      responses:
+        "200":
+          x-rate-limit: 1
+  /users.json:
+    get:
+      x-rate-limit: 20
+components:
+  schemas:
+    User:
+      example: user example
+      properties:
+        name:
+          example: name example
+`,
+    };
+    await project.write();
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  it("restricts matches to objects at a single-segment wildcard location", async () => {
+    const results = await find("x-rate-limit", [`${project.baseDir}/api.yaml`], {
+      scope: "paths.*.*",
+    });
+
+    expect(results).toEqual({
+      "paths./users.get.x-rate-limit": 10,
+      "paths./users.json.get.x-rate-limit": 20,
+    });
+  });
+
+  it("restricts matches to a subtree with **", async () => {
+    const results = await find("example", [`${project.baseDir}/api.yaml`], {
+      scope: "components.schemas.**",
+    });
+
+    expect(results).toEqual({
+      "components.schemas.User.example": "user example",
+      "components.schemas.User.properties.name.example": "name example",
+    });
+  });
+
+  it("supports bracket segments for keys containing dots", async () => {
+    const results = await find("x-rate-limit", [`${project.baseDir}/api.yaml`], {
+      scope: "paths['/users.json'].get",
+    });
+
+    expect(results).toEqual({
+      "paths./users.json.get.x-rate-limit": 20,
+    });
+  });
+
+  it("supports JSONPath-like patterns", async () => {
+    const results = await find("x-rate-limit", [`${project.baseDir}/api.yaml`], {
+      scope: ["$.paths[*]", "$..responses[*]"],
+    });
+
+    expect(results).toEqual({
+      "paths./users.x-rate-limit": 100,
+      "paths./users.get.responses.200.x-rate-limit": 1,
+    });
+  });
+
+  it("applies to findWithCallback", async () => {
+    const paths: string[] = [];
+    await findWithCallback("x-rate-limit", [`${project.baseDir}/api.yaml`], (path) => {
+      paths.push(path);
+    }, { scope: "" });
+
+    expect(paths).toEqual(["x-rate-limit"]);
+  });
+
+  it("does not follow $refs outside the scope", async () => {
+    project.files = {
+      "api.yaml": `
+paths:
+  /users:
+    $ref: "./missing.yaml"
+components:
+  schemas:
+    User:
+      example: user example
+`,
+    };
+    await project.write();
+
+    const results = await find("example", [`${project.baseDir}/api.yaml`], {
+      scope: "components.**",
+    });
+
+    expect(results).toEqual({
+      "components.schemas.User.example": "user example",
+    });
+  });
+
+  it("reaches referenced parameters one segment below inline ones", async () => {
+    project.files = {
+      "api.yaml": `
+paths:
+  /users:
+    get:
+      parameters:
+        - name: page
+          in: query
+          x-rate-limit: 5
+        - $ref: "#/components/parameters/Limit"
+components:
+  parameters:
+    Limit:
+      name: limit
+      in: query
+      x-rate-limit: 50
+`,
+    };
+    await project.write();
+
+    const inline = await find("x-rate-limit", [`${project.baseDir}/api.yaml`], {
+      scope: "paths.*.*.parameters.*",
+    });
+    const referenced = await find("x-rate-limit", [`${project.baseDir}/api.yaml`], {
+      scope: "paths.*.*.parameters.*.*",
+    });
+
+    expect(inline).toEqual({ "paths./users.get.parameters.0.x-rate-limit": 5 });
+    expect(referenced).toEqual({ "paths./users.get.parameters.1.Limit.x-rate-limit": 50 });
+  });
+
+  it("throws for an unterminated bracket segment", async () => {
+    await expect(
+      find("example", [`${project.baseDir}/api.yaml`], { scope: "paths['/users" }),
+    ).rejects.toThrow('Invalid scope pattern "paths[\'/users": unterminated "["');
+  });
+});
+
+describe("match context", () => {
+  let project: Project;
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  it("describes the enclosing operation, parameter and response", async () => {
+    project.files = {
+      "api.yaml": `
+paths:
+  /users/{id}:
+    x-custom: path item
+    parameters:
+      - name: id
+        in: path
+        x-custom: path parameter
+    get:
+      operationId: getUser
+      tags: [users, public]
+      x-custom: operation
+      parameters:
+        - $ref: "#/components/parameters/Expand"
+      responses:
+        "200":
+          x-custom: response
+components:
+  parameters:
+    Expand:
+      name: expand
+      in: query
+      x-custom: component parameter
+`,
+    };
+    await project.write();
+
+    const matches = await findMatches("x-custom", [`${project.baseDir}/api.yaml`]);
+    const contexts = Object.fromEntries(matches.map((m) => [m.path, m.context]));
+
+    expect(contexts).toEqual({
+      "paths./users/{id}.x-custom": { pathTemplate: "/users/{id}" },
+      "paths./users/{id}.parameters.0.x-custom": {
+        pathTemplate: "/users/{id}",
+        parameter: { name: "id", in: "path" },
+      },
+      "paths./users/{id}.get.x-custom": {
+        pathTemplate: "/users/{id}",
+        httpMethod: "get",
+        operationId: "getUser",
+        tags: ["users", "public"],
+      },
+      "paths./users/{id}.get.parameters.0.Expand.x-custom": {
+        pathTemplate: "/users/{id}",
+        httpMethod: "get",
+        operationId: "getUser",
+        tags: ["users", "public"],
+        parameter: { name: "expand", in: "query" },
+        componentType: "parameters",
+        componentName: "Expand",
+      },
+      "paths./users/{id}.get.responses.200.x-custom": {
+        pathTemplate: "/users/{id}",
+        httpMethod: "get",
+        operationId: "getUser",
+        tags: ["users", "public"],
+        responseStatus: "200",
+      },
+      "components.parameters.Expand.x-custom": {
+        parameter: { name: "expand", in: "query" },
+        componentType: "parameters",
+        componentName: "Expand",
+      },
+    });
+  });
+
+  it("reports the innermost component reached through $refs", async () => {
+    project.files = {
+      "api.yaml": `
+paths:
+  /users:
+    post:
+      requestBody:
+        $ref: "./common.yaml#/components/requestBodies/CreateUser"
+components:
+  schemas:
+    UserList:
+      items:
+        $ref: "#/components/schemas/User"
+    User:
+      x-pii: true
+`,
+      "common.yaml": `
+components:
+  requestBodies:
+    CreateUser:
+      content:
+        application/json:
+          schema:
+            $ref: "./api.yaml#/components/schemas/User"
+`,
+    };
+    await project.write();
+
+    const matches = await findMatches("x-pii", [`${project.baseDir}/api.yaml`]);
+
+    expect(matches.map((m) => [m.path, m.context])).toEqual([
+      [
+        "paths./users.post.requestBody.content.application/json.schema.x-pii",
+        {
+          pathTemplate: "/users",
+          httpMethod: "post",
+          componentType: "schemas",
+          componentName: "User",
+        },
+      ],
+      [
+        "components.schemas.UserList.items.x-pii",
+        { componentType: "schemas", componentName: "User" },
+      ],
+      ["components.schemas.User.x-pii", { componentType: "schemas", componentName: "User" }],
+    ]);
+  });
+});
+
+describe("error policy", () => {
+  let project: Project;
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+    project.files = {
+      "api.yaml": `paths:
+  /missing:
+    $ref: "./missing.yaml"
+  /invalid:
+    $ref: "./invalid.yaml#/Invalid"
+  /dangling:
+    $ref: "#/components/pathItems/Nope"
+  /dangling-external:
+    $ref: "./common.yaml#/Nope"
+  /anchor:
+    $ref: "#Anchor"
+  /users:
+    x-custom: found
+`,
+      "common.yaml": `Users:
+  x-custom: common
+`,
+      "invalid.yaml": `Invalid: [unterminated
+`,
+      "other.yaml": `x-custom: other
+`,
+    };
+    await project.write();
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  it("rejects on unreadable files by default", async () => {
+    await expect(find("x-custom", [`${project.baseDir}/api.yaml`])).rejects.toThrow("ENOENT");
+  });
+
+  it("collects diagnostics with the referring location", async () => {
+    const { matches, diagnostics } = await search("x-custom", [`${project.baseDir}/api.yaml`]);
+
+    expect(matches.map((m) => m.path)).toEqual(["paths./users.x-custom"]);
+    expect(diagnostics.map((d) => [d.kind, d.file, d.ref, d.path, d.location?.line])).toEqual([
+      ["unreadable-file", `${project.baseDir}/missing.yaml`, "./missing.yaml", "paths./missing", 3],
+      ["parse-error", `${project.baseDir}/invalid.yaml`, "./invalid.yaml#/Invalid", "paths./invalid", 5],
+      ["unresolved-pointer", `${project.baseDir}/api.yaml`, "#/components/pathItems/Nope", "paths./dangling", 7],
+      ["unresolved-pointer", `${project.baseDir}/common.yaml`, "./common.yaml#/Nope", "paths./dangling-external", 9],
+      ["broken-ref", `${project.baseDir}/api.yaml`, "#Anchor", "paths./anchor", 11],
+    ]);
+    expect(diagnostics[0].location).toEqual({
+      file: `${project.baseDir}/api.yaml`,
+      line: 3,
+      column: 5,
+      jsonPointer: "/paths/~1missing/$ref",
+    });
+    expect(diagnostics[2].message).toBe(
+      `JSON pointer "#/components/pathItems/Nope" not found in ${project.baseDir}/api.yaml`,
+    );
+  });
+
+  it("keeps searching the remaining root files", async () => {
+    const { matches, diagnostics } = await search("x-custom", [
+      `${project.baseDir}/nope.yaml`,
+      `${project.baseDir}/other.yaml`,
+    ]);
+
+    expect(matches.map((m) => m.path)).toEqual(["x-custom"]);
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ kind: "unreadable-file", file: `${project.baseDir}/nope.yaml` }),
+    ]);
+    expect(diagnostics[0].location).toBeUndefined();
+  });
+
+  it("passes diagnostics to onDiagnostic with the other search functions", async () => {
+    const diagnostics: string[] = [];
+    const results = await find("x-custom", [`${project.baseDir}/api.yaml`], {
+      onError: "collect",
+      onDiagnostic: (diagnostic) => {
+        diagnostics.push(diagnostic.kind);
+      },
+    });
+
+    expect(results).toEqual({ "paths./users.x-custom": "found" });
+    expect(diagnostics).toEqual([
+      "unreadable-file",
+      "parse-error",
+      "unresolved-pointer",
+      "unresolved-pointer",
+      "broken-ref",
+    ]);
+  });
+
+  it("skips problems silently when ignoring errors", async () => {
+    const onDiagnostic = () => {
+      throw new Error("should not be called");
+    };
+    const { matches, diagnostics } = await search("x-custom", [`${project.baseDir}/api.yaml`], {
+      onError: "ignore",
+      onDiagnostic,
+    });
+    const results = await find("x-custom", [`${project.baseDir}/api.yaml`], { onError: "ignore" });
+
+    expect(matches).toHaveLength(1);
+    expect(diagnostics).toEqual([]);
+    expect(results).toEqual({ "paths./users.x-custom": "found" });
+  });
+});
+
+describe("multiple root files", () => {
+  let project: Project;
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+    project.files = {
+      "api-v1.yaml": `
+paths:
+  /users:
+    get:
+      $ref: "./shared.yaml#/GetUsers"
+`,
+      "api-v2.yaml": `
+paths:
+  /users:
+    get:
+      x-foo: v2
+`,
+      "empty.yaml": `
+paths: {}
+`,
+      "shared.yaml": `
+GetUsers:
+  x-foo: v1
+`,
+    };
+    await project.write();
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  const files = () => [
+    `${project.baseDir}/api-v1.yaml`,
+    `${project.baseDir}/api-v2.yaml`,
+    `${project.baseDir}/empty.yaml`,
+  ];
+
+  it("keeps only the last value for identical paths in find", async () => {
+    const results = await find("x-foo", files());
+
+    expect(results).toEqual({ "paths./users.get.x-foo": "v2" });
+  });
+
+  it("groups results by root file with findByFile", async () => {
+    const results = await findByFile("x-foo", files());
+
+    expect(results).toEqual({
+      [`${project.baseDir}/api-v1.yaml`]: { "paths./users.get.x-foo": "v1" },
+      [`${project.baseDir}/api-v2.yaml`]: { "paths./users.get.x-foo": "v2" },
+      [`${project.baseDir}/empty.yaml`]: {},
+    });
+  });
+
+  it("reports the root file and resolved file of each match", async () => {
+    const matches = await findMatches("x-foo", files());
+
+    expect(matches.map((m) => [m.path, m.rootFile, m.location.file])).toEqual([
+      ["paths./users.get.x-foo", `${project.baseDir}/api-v1.yaml`, `${project.baseDir}/shared.yaml`],
+      ["paths./users.get.x-foo", `${project.baseDir}/api-v2.yaml`, `${project.baseDir}/api-v2.yaml`],
+    ]);
+  });
+});
+
+describe("directory and glob inputs", () => {
+  let project: Project;
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+    project.files = {
+      specs: {
+        "api.yaml": `
+paths:
+  /users:
+    $ref: "./paths/users.yaml"
+`,
+        "admin.json": `{ "paths": { "/admin": { "x-owner": "ops" } } }`,
+        "notes.txt": "x-owner: nobody",
+        paths: {
+          "users.yaml": `
+x-owner: identity
+`,
+        },
+        node_modules: {
+          pkg: { "vendor.yaml": "x-owner: vendor\n" },
+        },
+      },
+      cycle: {
+        "a.yaml": `
+x-owner: a
+next:
+  $ref: "./b.yaml"
+`,
+        "b.yaml": `
+x-owner: b
+next:
+  $ref: "./a.yaml"
+`,
+      },
+    };
+    await project.write();
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  const relative = (results: Record<string, unknown>) =>
+    Object.fromEntries(
+      Object.entries(results).map(([file, value]) => [file.slice(project.baseDir.length + 1), value]),
+    );
+
+  it("searches the YAML and JSON files in a directory, leaving out node_modules", async () => {
+    const results = await findByFile("x-owner", [`${project.baseDir}/specs`]);
+
+    expect(relative(results)).toEqual({
+      "specs/admin.json": { "paths./admin.x-owner": "ops" },
+      "specs/api.yaml": { "paths./users.x-owner": "identity" },
+      "specs/paths/users.yaml": { "x-owner": "identity" },
+    });
+  });
+
+  it("expands glob patterns", async () => {
+    const results = await findByFile("x-owner", [`${project.baseDir}/specs/**/*.yaml`]);
+
+    expect(Object.keys(relative(results))).toEqual(["specs/api.yaml", "specs/paths/users.yaml"]);
+  });
+
+  it("applies include and exclude patterns", async () => {
+    const results = await findByFile("x-owner", [`${project.baseDir}/specs`], {
+      include: "**/*.yaml",
+      exclude: "paths/**",
+    });
+
+    expect(Object.keys(relative(results))).toEqual(["specs/api.yaml", "specs/node_modules/pkg/vendor.yaml"]);
+  });
+
+  it("skips files reached through $refs from other searched files", async () => {
+    const matches = await findMatches("x-owner", [`${project.baseDir}/specs`], { skipRefTargets: true });
+
+    expect(matches.map((m) => [m.rootFile.slice(project.baseDir.length + 1), m.path])).toEqual([
+      ["specs/admin.json", "paths./admin.x-owner"],
+      ["specs/api.yaml", "paths./users.x-owner"],
+    ]);
+  });
+
+  it("keeps the first of files that reference each other", async () => {
+    const results = await findByFile("x-owner", [`${project.baseDir}/cycle`], { skipRefTargets: true });
+
+    expect(relative(results)).toEqual({
+      "cycle/a.yaml": { "x-owner": "a", "next.x-owner": "b", "next.next.x-owner": "a" },
+    });
+  });
+
+  it("lists the files a search starts from with expandFilePaths", async () => {
+    const files = await expandFilePaths([
+      `${project.baseDir}/specs/*.json`,
+      `${project.baseDir}/specs/api.yaml`,
+      `${project.baseDir}/specs/missing.yaml`,
+      "https://example.com/api.yaml",
+    ]);
+
+    expect(files).toEqual([
+      `${project.baseDir}/specs/admin.json`,
+      `${project.baseDir}/specs/api.yaml`,
+      `${project.baseDir}/specs/missing.yaml`,
+      "https://example.com/api.yaml",
+    ]);
+  });
+});
+
+describe("concurrency", () => {
+  const memory: Record<string, string> = {
+    "mem://specs/slow.yaml": `
+paths:
+  /slow:
+    x-foo: slow
+    get:
+      $ref: "./shared.yaml#/Operation"
+`,
+    "mem://specs/fast.yaml": `
+paths:
+  /fast:
+    x-foo: fast
+    get:
+      $ref: "./shared.yaml#/Operation"
+`,
+    "mem://specs/shared.yaml": `
+Operation:
+  x-foo: shared
+`,
+    "mem://specs/slow-broken.yaml": `
+paths:
+  /broken:
+    $ref: "./missing.yaml"
+`,
+  };
+  let loaded: string[];
+
+  const loaders = () => [
+    {
+      canLoad: (location: string) => location.startsWith("mem://"),
+      load: async (location: string) => {
+        loaded.push(location);
+        // Slow roots take longest to load, so later roots finish first
+        await new Promise((resolve) => setTimeout(resolve, location.includes("slow") ? 20 : 1));
+        if (!(location in memory)) {
+          throw new Error(`Not found: ${location}`);
+        }
+        return memory[location];
+      },
+    },
+  ];
+
+  const files = ["mem://specs/slow.yaml", "mem://specs/fast.yaml"];
+
+  beforeEach(() => {
+    loaded = [];
+  });
+
+  it("returns the same matches as a sequential search", async () => {
+    const sequential = await findMatches("x-foo", files, { loaders: loaders() });
+    const concurrent = await findMatches("x-foo", files, { loaders: loaders(), concurrency: 2 });
+
+    expect(concurrent.map((m) => [m.rootFile, m.path, m.value])).toEqual([
+      ["mem://specs/slow.yaml", "paths./slow.x-foo", "slow"],
+      ["mem://specs/slow.yaml", "paths./slow.get.x-foo", "shared"],
+      ["mem://specs/fast.yaml", "paths./fast.x-foo", "fast"],
+      ["mem://specs/fast.yaml", "paths./fast.get.x-foo", "shared"],
+    ]);
+    expect(concurrent).toEqual(sequential);
+  });
+
+  it("loads a file reached from several roots once", async () => {
+    await findMatches("x-foo", files, { loaders: loaders(), concurrency: 2 });
+
+    expect([...loaded].sort()).toEqual([
+      "mem://specs/fast.yaml",
+      "mem://specs/shared.yaml",
+      "mem://specs/slow.yaml",
+    ]);
+  });
+
+  it("calls back as matches are found unless ordered is set", async () => {
+    const unordered: string[] = [];
+    await findWithCallback("x-foo", files, (path) => void unordered.push(path), {
+      loaders: loaders(),
+      concurrency: 2,
+    });
+    const ordered: string[] = [];
+    await findWithCallback("x-foo", files, (path) => void ordered.push(path), {
+      loaders: loaders(),
+      concurrency: 2,
+      ordered: true,
+    });
+
+    expect(unordered[0]).toBe("paths./fast.x-foo");
+    expect(ordered).toEqual([
+      "paths./slow.x-foo",
+      "paths./slow.get.x-foo",
+      "paths./fast.x-foo",
+      "paths./fast.get.x-foo",
+    ]);
+  });
+
+  it("delivers diagnostics in root order", async () => {
+    const { diagnostics } = await search(
+      "x-foo",
+      ["mem://specs/slow-broken.yaml", "mem://specs/fast-missing.yaml"],
+      { loaders: loaders(), concurrency: 2 },
+    );
+
+    expect(diagnostics.map((d) => [d.kind, d.file])).toEqual([
+      ["unreadable-file", "mem://specs/missing.yaml"],
+      ["unreadable-file", "mem://specs/fast-missing.yaml"],
+    ]);
+  });
+
+  it("rejects an invalid concurrency", async () => {
+    await expect(find("x-foo", files, { concurrency: 0 })).rejects.toThrow(
+      "Invalid concurrency 0, expected a positive integer",
+    );
+    await expect(find("x-foo", files, { concurrency: 1.5 })).rejects.toThrow(
+      "Invalid concurrency 1.5",
+    );
+  });
+});
+
+describe("createFinder", () => {
+  let project: Project;
+  let loaded: string[];
+
+  const countingLoaders = () => [
+    {
+      canLoad: () => true,
+      load: (location: string) => {
+        loaded.push(location.slice(project.baseDir.length + 1));
+        return readFile(location, "utf-8");
+      },
+    },
+  ];
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+    project.files = {
+      "api.yaml": `
+paths:
+  /users:
+    x-owner: identity
+    get:
+      $ref: "./common.yaml#/GetUsers"
+`,
+      "common.yaml": `
+GetUsers:
+  x-owner: shared
+  x-internal: true
+`,
+    };
+    await project.write();
+    loaded = [];
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  it("parses each file once across queries", async () => {
+    const finder = createFinder({ loaders: countingLoaders() });
+
+    const owners = await finder.find("x-owner", [`${project.baseDir}/api.yaml`]);
+    const internal = await finder.findMatches("x-internal", [`${project.baseDir}/api.yaml`]);
+
+    expect(owners).toEqual({ "paths./users.x-owner": "identity", "paths./users.get.x-owner": "shared" });
+    expect(internal.map((m) => [m.path, m.location.line])).toEqual([["paths./users.get.x-internal", 4]]);
+    expect(loaded).toEqual(["api.yaml", "common.yaml"]);
+  });
+
+  it("reloads files whose content changed", async () => {
+    const finder = createFinder({ loaders: countingLoaders() });
+    await finder.find("x-owner", [`${project.baseDir}/api.yaml`]);
+
+    await writeFile(`${project.baseDir}/common.yaml`, "GetUsers:\n  x-owner: platform\n");
+    const results = await finder.find("x-owner", [`${project.baseDir}/api.yaml`]);
+
+    expect(results["paths./users.get.x-owner"]).toBe("platform");
+    expect(loaded).toEqual(["api.yaml", "common.yaml", "common.yaml"]);
+  });
+
+  it("keeps the parsed document when only the modification time changed", async () => {
+    const finder = createFinder({ loaders: countingLoaders() });
+    const [before] = await finder.findMatches("x-internal", [`${project.baseDir}/api.yaml`]);
+
+    const later = new Date(Date.now() + 60_000);
+    await utimes(`${project.baseDir}/common.yaml`, later, later);
+    const [after] = await finder.findMatches("x-internal", [`${project.baseDir}/api.yaml`]);
+
+    expect(loaded).toEqual(["api.yaml", "common.yaml", "common.yaml"]);
+    expect(after.parent).toBe(before.parent);
+  });
+
+  it("forgets cached documents when invalidated", async () => {
+    const finder = createFinder({ loaders: countingLoaders() });
+    await finder.find("x-owner", [`${project.baseDir}/api.yaml`]);
+
+    finder.invalidate(`${project.baseDir}/common.yaml`);
+    await finder.find("x-owner", [`${project.baseDir}/api.yaml`]);
+    finder.invalidate();
+    await finder.find("x-owner", [`${project.baseDir}/api.yaml`]);
+
+    expect(loaded).toEqual(["api.yaml", "common.yaml", "common.yaml", "api.yaml", "common.yaml"]);
+  });
+
+  it("stores parsed documents on disk keyed by content hash", async () => {
+    const directory = `${project.baseDir}/.cache`;
+    const source = await readFile(`${project.baseDir}/common.yaml`, "utf-8");
+    const hash = createHash("sha256").update(source).digest("hex");
+
+    const first = await createFinder({ cache: { directory } }).findMatches("x-owner", [
+      `${project.baseDir}/api.yaml`,
+    ]);
+    const cached = JSON.parse(await readFile(`${directory}/${hash}.yaml.json`, "utf-8"));
+    const second = await createFinder({ cache: { directory } }).findMatches("x-owner", [
+      `${project.baseDir}/api.yaml`,
+    ]);
+
+    expect(cached.content).toEqual({ GetUsers: { "x-owner": "shared", "x-internal": true } });
+    expect(second.map((m) => [m.path, m.value, m.location])).toEqual(
+      first.map((m) => [m.path, m.value, m.location]),
+    );
+  });
+
+  it("applies the finder options as defaults for each query", async () => {
+    const finder = createFinder({ pathFormat: "jsonPointer" });
+
+    expect(await finder.find("x-owner", [`${project.baseDir}/api.yaml`])).toHaveProperty(["/paths/~1users/x-owner"]);
+    expect(await finder.find("x-owner", [`${project.baseDir}/api.yaml`], { pathFormat: "dot" })).toHaveProperty([
+      "paths./users.x-owner",
+    ]);
+  });
+});
+
+describe("watch", () => {
+  let project: Project;
+  let watcher: IWatcher | undefined;
+  let received: IMatchChanges<unknown>[];
+  let notify: (() => void) | undefined;
+
+  const onChange = (changes: IMatchChanges<unknown>) => {
+    received.push(changes);
+    notify?.();
+  };
+
+  // Resolves with the next reported changes
+  const nextChanges = () =>
+    new Promise<IMatchChanges<unknown>>((resolve) => {
+      const count = received.length;
+      notify = () => {
+        if (received.length > count) {
+          resolve(received[count]);
+        }
+      };
+    });
+
+  const summarize = (changes: IMatchChanges<unknown>) => ({
+    added: changes.added.map((m) => [m.rootFile.slice(project.baseDir.length + 1), m.path, m.value]),
+    removed: changes.removed.map((m) => [m.rootFile.slice(project.baseDir.length + 1), m.path]),
+    changed: changes.changed.map(({ previous, match }) => [match.path, previous.value, match.value]),
+  });
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+    project.files = {
+      "api.yaml": `
+paths:
+  /users:
+    x-owner: identity
+    get:
+      $ref: "./operations/users.yaml"
+`,
+      "other.yaml": `
+paths:
+  /posts:
+    x-owner: content
+`,
+      operations: {
+        "users.yaml": `
+x-owner: identity-ops
+`,
+      },
+    };
+    await project.write();
+    received = [];
+    watcher = undefined;
+  });
+
+  afterEach(async () => {
+    await watcher?.close();
+    await project.dispose();
+  });
+
+  const files = () => [`${project.baseDir}/api.yaml`, `${project.baseDir}/other.yaml`];
+
+  it("reports the initial matches as added", async () => {
+    watcher = await watch("x-owner", files(), onChange);
+
+    expect(received.map(summarize)).toEqual([
+      {
+        added: [
+          ["api.yaml", "paths./users.x-owner", "identity"],
+          ["api.yaml", "paths./users.get.x-owner", "identity-ops"],
+          ["other.yaml", "paths./posts.x-owner", "content"],
+        ],
+        removed: [],
+        changed: [],
+      },
+    ]);
+  });
+
+  it("reports changed values in referenced files", async () => {
+    watcher = await watch("x-owner", files(), onChange, { debounce: 10 });
+
+    const changes = nextChanges();
+    await writeFile(`${project.baseDir}/operations/users.yaml`, "x-owner: platform\n");
+
+    expect(summarize(await changes)).toEqual({
+      added: [],
+      removed: [],
+      changed: [["paths./users.get.x-owner", "identity-ops", "platform"]],
+    });
+  });
+
+  it("reports added and removed matches", async () => {
+    watcher = await watch("x-owner", files(), onChange, { debounce: 10 });
+
+    const changes = nextChanges();
+    await writeFile(
+      `${project.baseDir}/other.yaml`,
+      "paths:\n  /comments:\n    x-owner: content\n",
+    );
+
+    expect(summarize(await changes)).toEqual({
+      added: [["other.yaml", "paths./comments.x-owner", "content"]],
+      removed: [["other.yaml", "paths./posts.x-owner"]],
+      changed: [],
+    });
+  });
+
+  it("searches again only the root files that reach a changed file", async () => {
+    const walked: string[] = [];
+    const matcher = (key: string, _value: unknown, path: string) => {
+      if (path.startsWith("paths.")) {
+        walked.push(path.split(".")[1]);
+      }
+      return key === "x-owner";
+    };
+    watcher = await watch(matcher, files(), onChange, { debounce: 10 });
+    walked.length = 0;
+
+    const changes = nextChanges();
+    await writeFile(`${project.baseDir}/operations/users.yaml`, "x-owner: platform\n");
+    await changes;
+
+    expect(new Set(walked)).toEqual(new Set(["/users"]));
+  });
+
+  it("follows new dependencies and stops following removed ones", async () => {
+    watcher = await watch("x-owner", files(), onChange, { debounce: 10 });
+
+    let changes = nextChanges();
+    await writeFile(`${project.baseDir}/api.yaml`, "paths:\n  /users:\n    $ref: './shared/users.yaml'\n");
+    expect(summarize(await changes).removed).toHaveLength(2);
+
+    changes = nextChanges();
+    await mkdir(`${project.baseDir}/shared`);
+    await writeFile(`${project.baseDir}/shared/users.yaml`, "x-owner: shared\n");
+    expect(summarize(await changes).added).toEqual([["api.yaml", "paths./users.x-owner", "shared"]]);
+  });
+
+  it("watches each directory holding a file once", async () => {
+    vi.mocked(watchFileSystem).mockClear();
+    watcher = await watch("x-owner", files(), onChange);
+
+    const directories = vi.mocked(watchFileSystem).mock.calls.map(([directory]) => directory);
+    expect(directories.sort()).toEqual([project.baseDir, `${project.baseDir}/operations`]);
+  });
+
+  it("watches the nearest existing directory above a missing one", async () => {
+    await writeFile(`${project.baseDir}/api.yaml`, "paths:\n  /users:\n    $ref: './shared/users.yaml'\n");
+    vi.mocked(watchFileSystem).mockClear();
+    watcher = await watch("x-owner", files(), onChange);
+
+    const { calls, results } = vi.mocked(watchFileSystem).mock;
+    const directories = calls.filter((_call, index) => results[index].type === "return");
+    expect(directories.map(([directory]) => directory)).toEqual([project.baseDir]);
+  });
+
+  it("stops reporting once closed", async () => {
+    watcher = await watch("x-owner", files(), onChange, { debounce: 10 });
+    await watcher.close();
+
+    await writeFile(`${project.baseDir}/other.yaml`, "x-owner: late\n");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(received).toHaveLength(1);
+  });
+});
+
+describe("ref provenance", () => {
+  let project: Project;
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  it("lists every $ref followed to reach a match", async () => {
+    project.files = {
+      "api.yaml": `paths:
+  /users:
+    get:
+      x-owner: identity
+  /teams:
+    $ref: "#/components/pathItems/Teams"
+components:
+  pathItems:
+    Teams:
+      get:
+        $ref: "./operations.yaml#/listTeams"
+`,
+      "operations.yaml": `listTeams:
+  x-owner: platform
+`,
+    };
+    await project.write();
+
+    const matches = await findMatches("x-owner", [`${project.baseDir}/api.yaml`]);
+
+    expect(matches.map((match) => [match.path, match.via])).toEqual([
+      ["paths./users.get.x-owner", []],
+      [
+        "paths./teams.get.x-owner",
+        [
+          {
+            ref: "#/components/pathItems/Teams",
+            file: `${project.baseDir}/api.yaml`,
+            targetFile: `${project.baseDir}/api.yaml`,
+            targetPointer: "/components/pathItems/Teams",
+          },
+          {
+            ref: "./operations.yaml#/listTeams",
+            file: `${project.baseDir}/api.yaml`,
+            targetFile: `${project.baseDir}/operations.yaml`,
+            targetPointer: "/listTeams",
+          },
+        ],
+      ],
+      [
+        "components.pathItems.Teams.get.x-owner",
+        [
+          {
+            ref: "./operations.yaml#/listTeams",
+            file: `${project.baseDir}/api.yaml`,
+            targetFile: `${project.baseDir}/operations.yaml`,
+            targetPointer: "/listTeams",
+          },
+        ],
+      ],
+    ]);
+  });
+
+  it("records refs written in external files against that file", async () => {
+    project.files = {
+      "api.yaml": `paths:
+  /users:
+    $ref: "./paths/users.yaml"
+`,
+      paths: {
+        "users.yaml": `get:
+  $ref: "#/operations/list"
+operations:
+  list:
+    x-owner: identity
+`,
+      },
+    };
+    await project.write();
+
+    const [match] = await findMatches("x-owner", [`${project.baseDir}/api.yaml`]);
+
+    expect(match.via.map((hop) => [hop.ref, hop.file, hop.targetFile, hop.targetPointer])).toEqual([
+      ["./paths/users.yaml", `${project.baseDir}/api.yaml`, `${project.baseDir}/paths/users.yaml`, ""],
+      [
+        "#/operations/list",
+        `${project.baseDir}/paths/users.yaml`,
+        `${project.baseDir}/paths/users.yaml`,
+        "/operations/list",
+      ],
+    ]);
+  });
+});
+
+describe("path formats", () => {
+  let project: Project;
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+    project.files = {
+      "api.yaml": `paths:
+  /users/{id}.json:
+    get:
+      parameters:
+        - name: o'clock
+          x-custom: param
+      x-custom: operation
+`,
+    };
+    await project.write();
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  it("writes result keys in the requested format", async () => {
+    const filePath = `${project.baseDir}/api.yaml`;
+
+    expect(Object.keys(await find("x-custom", [filePath]))).toEqual([
+      "paths./users/{id}.json.get.x-custom",
+      "paths./users/{id}.json.get.parameters.0.x-custom",
+    ]);
+    expect(Object.keys(await find("x-custom", [filePath], { pathFormat: "jsonPointer" }))).toEqual([
+      "/paths/~1users~1{id}.json/get/x-custom",
+      "/paths/~1users~1{id}.json/get/parameters/0/x-custom",
+    ]);
+    expect(Object.keys(await find("x-custom", [filePath], { pathFormat: "segments" }))).toEqual([
+      '["paths","/users/{id}.json","get","x-custom"]',
+      '["paths","/users/{id}.json","get","parameters","0","x-custom"]',
+    ]);
+    expect(Object.keys(await find("x-custom", [filePath], { pathFormat: "jsonPath" }))).toEqual([
+      "$['paths']['/users/{id}.json']['get']['x-custom']",
+      "$['paths']['/users/{id}.json']['get']['parameters']['0']['x-custom']",
+    ]);
+  });
+
+  it("gives raw segments on matches and formatted paths to predicates", async () => {
+    const predicatePaths: string[] = [];
+    const matches = await findMatches(
+      (key, _value, path) => {
+        predicatePaths.push(path);
+        return key === "x-custom";
+      },
+      [`${project.baseDir}/api.yaml`],
+      { pathFormat: "jsonPointer" },
+    );
+
+    expect(matches.map((match) => match.segments)).toEqual([
+      ["paths", "/users/{id}.json", "get", "x-custom"],
+      ["paths", "/users/{id}.json", "get", "parameters", "0", "x-custom"],
+    ]);
+    expect(predicatePaths).toContain("/paths/~1users~1{id}.json/get/parameters/0/name");
+  });
+
+  it("writes diagnostic paths in the requested format", async () => {
+    project.files = {
+      "broken.yaml": `paths:
+  /a.b:
+    $ref: "#/missing"
+`,
+    };
+    await project.write();
+
+    const report = await search("x-custom", [`${project.baseDir}/broken.yaml`], { pathFormat: "segments" });
+
+    expect(report.diagnostics.map((diagnostic) => diagnostic.path)).toEqual(['["paths","/a.b"]']);
+  });
+
+  it("round-trips every format through parsePath", () => {
+    const segments = ["paths", "/users/{id}.json", "o'clock", "back\\slash", "~tilde", "0"];
+
+    for (const format of ["jsonPointer", "segments", "jsonPath"] as const) {
+      expect(parsePath(formatPath(segments, format), format)).toEqual(segments);
+    }
+    expect(parsePath(formatPath(["paths", "users"]))).toEqual(["paths", "users"]);
+    expect(parsePath("", "jsonPointer")).toEqual([]);
+    expect(parsePath("$", "jsonPath")).toEqual([]);
+  });
+
+  it("parses JSONPath dot, index and double-quoted steps", () => {
+    expect(parsePath(`$.paths["/users"].get.parameters[0]`, "jsonPath")).toEqual([
+      "paths",
+      "/users",
+      "get",
+      "parameters",
+      "0",
+    ]);
+  });
+
+  it("rejects malformed paths", () => {
+    expect(() => parsePath("paths/users", "jsonPointer")).toThrow('Invalid JSON Pointer path "paths/users"');
+    expect(() => parsePath('["paths", 1]', "segments")).toThrow("Invalid segments path");
+    expect(() => parsePath("{", "segments")).toThrow("Invalid segments path");
+    expect(() => parsePath("$.paths[users]", "jsonPath")).toThrow("Invalid JSONPath path");
+    expect(() => parsePath("paths", "jsonPath")).toThrow("Invalid JSONPath path");
+  });
+});
+
+describe("schema paths", () => {
+  let project: Project;
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+    project.files = {
+      "api.yaml": `
+openapi: 3.0.3
+components:
+  schemas:
+    Person:
+      x-owner: people
+      properties:
+        name:
+          x-pii: true
+    Admin:
+      allOf:
+        - $ref: "#/components/schemas/Person"
+        - properties:
+            role:
+              x-pii: false
+    Pet:
+      oneOf:
+        - $ref: "#/components/schemas/Cat"
+        - $ref: "./dog.yaml"
+        - properties:
+            name:
+              x-pii: true
+    Cat:
+      properties:
+        owner:
+          x-pii: true
+`,
+      "dog.yaml": `
+properties:
+  chip:
+    x-pii: true
+`,
+    };
+    await project.write();
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  it("merges allOf entries and names oneOf and anyOf entries by their $ref", async () => {
+    const matches = await findMatches("x-pii", [`${project.baseDir}/api.yaml`], { schemaPaths: true });
+
+    expect(matches.map((match) => match.path)).toEqual([
+      "components.schemas.Person.properties.name.x-pii",
+      "components.schemas.Admin.properties.name.x-pii",
+      "components.schemas.Admin.properties.role.x-pii",
+      "components.schemas.Pet.oneOf.Cat.properties.owner.x-pii",
+      "components.schemas.Pet.oneOf.dog.properties.chip.x-pii",
+      "components.schemas.Pet.oneOf.2.properties.name.x-pii",
+      "components.schemas.Cat.properties.owner.x-pii",
+    ]);
+    expect(matches[1].location.jsonPointer).toBe("/components/schemas/Person/properties/name/x-pii");
+    expect(matches[4].location.file).toBe(`${project.baseDir}/dog.yaml`);
+  });
+
+  it("keeps composition keywords and indexes by default", async () => {
+    const results = await find("x-pii", [`${project.baseDir}/api.yaml`], { scope: "components.schemas.Admin.**" });
+
+    expect(Object.keys(results)).toEqual([
+      "components.schemas.Admin.allOf.0.properties.name.x-pii",
+      "components.schemas.Admin.allOf.1.properties.role.x-pii",
+    ]);
+  });
+
+  it("matches scope patterns against schema paths", async () => {
+    const results = await find("x-pii", [`${project.baseDir}/api.yaml`], {
+      schemaPaths: true,
+      scope: "components.schemas.*.properties.*",
+      pathFormat: "jsonPointer",
+    });
+
+    expect(results).toEqual({
+      "/components/schemas/Person/properties/name/x-pii": true,
+      "/components/schemas/Admin/properties/name/x-pii": true,
+      "/components/schemas/Admin/properties/role/x-pii": false,
+      "/components/schemas/Cat/properties/owner/x-pii": true,
+    });
+  });
+
+  it("lets a schema take the properties of its allOf entries in findMissing", async () => {
+    const files = [`${project.baseDir}/api.yaml`];
+
+    expect((await findMissing("x-owner", files, { at: "schema" })).map((node) => node.path)).toEqual([
+      "components.schemas.Admin",
+      "components.schemas.Pet",
+      "components.schemas.Cat",
+    ]);
+    expect(
+      (await findMissing("x-owner", files, { at: "schema", schemaPaths: true })).map((node) => node.path),
+    ).toEqual(["components.schemas.Pet", "components.schemas.Cat"]);
+  });
+});
+
+describe("Swagger 2.0 documents", () => {
+  let project: Project;
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+    project.files = {
+      "swagger.yaml": `swagger: "2.0"
+produces:
+  - application/json
+paths:
+  /users:
+    get:
+      parameters:
+        - $ref: "#/parameters/Limit"
+      responses:
+        "200":
+          description: Users
+          schema:
+            $ref: "#/definitions/User"
+    post:
+      consumes:
+        - application/xml
+      parameters:
+        - name: user
+          in: body
+          x-owner: identity
+          schema:
+            $ref: "#/definitions/User"
+      responses:
+        "404":
+          $ref: "#/responses/NotFound"
+parameters:
+  Limit:
+    name: limit
+    in: query
+    x-owner: platform
+responses:
+  NotFound:
+    description: Not found
+    x-owner: platform
+definitions:
+  User:
+    type: object
+    x-owner: identity
+`,
+      "openapi.yaml": `openapi: 3.0.3
+paths:
+  /users:
+    get:
+      responses:
+        "200":
+          description: Users
+          content:
+            application/json:
+              schema:
+                $ref: "#/components/schemas/User"
+components:
+  schemas:
+    User:
+      type: object
+      x-owner: identity
+`,
+    };
+    await project.write();
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  it("keeps parameter names and component context for 2.0 refs", async () => {
+    const matches = await findMatches("x-owner", [`${project.baseDir}/swagger.yaml`]);
+
+    expect(matches.map((match) => [match.path, match.context.componentType, match.context.componentName])).toEqual([
+      ["paths./users.get.parameters.0.Limit.x-owner", "parameters", "Limit"],
+      ["paths./users.get.responses.200.schema.x-owner", "definitions", "User"],
+      ["paths./users.post.parameters.0.x-owner", undefined, undefined],
+      ["paths./users.post.parameters.0.schema.x-owner", "definitions", "User"],
+      ["paths./users.post.responses.404.x-owner", "responses", "NotFound"],
+      ["parameters.Limit.x-owner", "parameters", "Limit"],
+      ["responses.NotFound.x-owner", "responses", "NotFound"],
+      ["definitions.User.x-owner", "definitions", "User"],
+    ]);
+  });
+
+  it("reports OpenAPI 3 paths with normalizePaths", async () => {
+    const matches = await findMatches("x-owner", [`${project.baseDir}/swagger.yaml`], { normalizePaths: true });
+
+    expect(matches.map((match) => [match.path, match.context.componentType])).toEqual([
+      ["paths./users.get.parameters.0.Limit.x-owner", "parameters"],
+      ["paths./users.get.responses.200.content.application/json.schema.x-owner", "schemas"],
+      ["paths./users.post.requestBody.x-owner", undefined],
+      ["paths./users.post.requestBody.content.application/xml.schema.x-owner", "schemas"],
+      ["paths./users.post.responses.404.x-owner", "responses"],
+      ["components.parameters.Limit.x-owner", "parameters"],
+      ["components.responses.NotFound.x-owner", "responses"],
+      ["components.schemas.User.x-owner", "schemas"],
+    ]);
+    expect(matches[2].location.jsonPointer).toBe("/paths/~1users/post/parameters/0/x-owner");
+  });
+
+  it("applies one scope to 2.0 and 3.x documents with normalizePaths", async () => {
+    const results = await findByFile(
+      "x-owner",
+      [`${project.baseDir}/swagger.yaml`, `${project.baseDir}/openapi.yaml`],
+      { normalizePaths: true, scope: "paths.*.*.responses.*.content.*.schema" },
+    );
+
+    expect(results).toEqual({
+      [`${project.baseDir}/swagger.yaml`]: {
+        "paths./users.get.responses.200.content.application/json.schema.x-owner": "identity",
+      },
+      [`${project.baseDir}/openapi.yaml`]: {
+        "paths./users.get.responses.200.content.application/json.schema.x-owner": "identity",
+      },
+    });
+  });
+
+  it("bundles external refs into the 2.0 sections", async () => {
+    project.files = {
+      "api.yaml": `swagger: "2.0"
+paths:
+  /users:
+    get:
+      parameters:
+        - $ref: "./common.yaml#/Limit"
+      responses:
+        "200":
+          description: Users
+          schema:
+            $ref: "./common.yaml#/definitions/User"
+`,
+      "common.yaml": `Limit:
+  name: limit
+  in: query
+definitions:
+  User:
+    type: object
+`,
+    };
+    await project.write();
+
+    const document = await bundle(`${project.baseDir}/api.yaml`);
+
+    expect(document).toEqual({
+      swagger: "2.0",
+      paths: {
+        "/users": {
+          get: {
+            parameters: [{ $ref: "#/parameters/Limit" }],
+            responses: {
+              "200": { description: "Users", schema: { $ref: "#/definitions/User" } },
+            },
+          },
+        },
+      },
+      parameters: { Limit: { name: "limit", in: "query" } },
+      definitions: { User: { type: "object" } },
+    });
+  });
+});
+
+describe("OpenAPI 3.1 references", () => {
+  let project: Project;
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  it("searches keys next to $ref in 3.1 documents only", async () => {
+    const document = (version: string) => `openapi: ${version}
+paths:
+  /users:
+    $ref: "#/components/pathItems/Users"
+    x-owner: identity
+components:
+  pathItems:
+    Users:
+      x-owner: shared
+`;
+    project.files = {
+      "v30.yaml": document("3.0.3"),
+      "v31.yaml": document("3.1.0"),
+    };
+    await project.write();
+
+    expect(await find("x-owner", [`${project.baseDir}/v30.yaml`])).toEqual({
+      "paths./users.x-owner": "shared",
+      "components.pathItems.Users.x-owner": "shared",
+    });
+    expect(
+      (await findMatches("x-owner", [`${project.baseDir}/v31.yaml`])).map((match) => [match.path, match.value]),
+    ).toEqual([
+      ["paths./users.x-owner", "identity"],
+      ["paths./users.x-owner", "shared"],
+      ["components.pathItems.Users.x-owner", "shared"],
+    ]);
+  });
+
+  it("resolves refs to embedded $id resources and $anchor names without loading them", async () => {
+    project.files = {
+      "api.yaml": `openapi: 3.1.0
+paths:
+  /users:
+    get:
+      responses:
+        "200":
+          description: A user
+          content:
+            application/json:
+              schema:
+                $ref: "https://example.com/schemas/user"
+components:
+  schemas:
+    User:
+      $id: https://example.com/schemas/user
+      properties:
+        name:
+          $ref: "#name"
+      $defs:
+        name:
+          $anchor: name
+          x-pii: true
+`,
+    };
+    await project.write();
+
+    const report = await search("x-pii", [`${project.baseDir}/api.yaml`], { http: { offline: true } });
+
+    expect(report.diagnostics).toEqual([]);
+    expect(report.matches.map((match) => match.path)).toEqual([
+      "paths./users.get.responses.200.content.application/json.schema.properties.name.x-pii",
+      "paths./users.get.responses.200.content.application/json.schema.$defs.name.x-pii",
+      "components.schemas.User.properties.name.x-pii",
+      "components.schemas.User.$defs.name.x-pii",
+    ]);
+  });
+
+  it("resolves relative external refs against the enclosing $id", async () => {
+    project.files = {
+      "api.yaml": `openapi: 3.1.0
+components:
+  schemas:
+    Pet:
+      $id: ./schemas/pet.yaml
+      properties:
+        owner:
+          $ref: owner.yaml
+`,
+      schemas: {
+        "owner.yaml": `x-pii: true
+`,
+      },
+    };
+    await project.write();
+
+    const matches = await findMatches("x-pii", [`${project.baseDir}/api.yaml`]);
+
+    expect(matches.map((match) => [match.path, match.location.file])).toEqual([
+      ["components.schemas.Pet.properties.owner.x-pii", `${project.baseDir}/schemas/owner.yaml`],
+    ]);
+  });
+
+  it("resolves $dynamicRef through the dynamic scope", async () => {
+    project.files = {
+      "api.yaml": `openapi: 3.1.0
+components:
+  schemas:
+    Tree:
+      $id: https://example.com/tree
+      $dynamicAnchor: node
+      type: object
+      properties:
+        children:
+          type: array
+          items:
+            $dynamicRef: "#node"
+    StrictTree:
+      $id: https://example.com/strict-tree
+      $dynamicAnchor: node
+      $ref: https://example.com/tree
+      x-strict: true
+`,
+    };
+    await project.write();
+
+    expect(await find("x-strict", [`${project.baseDir}/api.yaml`])).toEqual({
+      "components.schemas.StrictTree.x-strict": true,
+      "components.schemas.StrictTree.properties.children.items.x-strict": true,
+    });
+  });
+
+  it("reports anchors that do not exist", async () => {
+    project.files = {
+      "api.yaml": `openapi: 3.1.0
+components:
+  schemas:
+    User:
+      $ref: "#missing"
+`,
+    };
+    await project.write();
+
+    const report = await search("x-pii", [`${project.baseDir}/api.yaml`]);
+
+    expect(report.diagnostics).toEqual([
+      expect.objectContaining({
+        kind: "broken-ref",
+        message: `Anchor "#missing" not found in ${project.baseDir}/api.yaml`,
+        ref: "#missing",
+        path: "components.schemas.User",
+      }),
+    ]);
+  });
+});
+
+describe("remote references", () => {
+  let project: Project;
+  let server: Server;
+  let baseUrl: string;
+  let requests: string[];
+  const documents: Record<string, string> = {
+    "/specs/common.yaml": `
+components:
+  schemas:
+    Error:
+      x-custom: remote error
+      properties:
+        detail:
+          $ref: "./nested/detail.yaml"
+`,
+    "/specs/nested/detail.yaml": `
+x-custom: relative to remote
+`,
+    "/specs/api.yaml": `
+paths:
+  /users:
+    x-custom: remote root
+`,
+    "/specs/openapi": `
+paths:
+  /users:
+    $ref: "./error?format=json"
+`,
+    "/specs/error?format=json": '{ "x-custom": "json error" }',
+  };
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+    requests = [];
+    server = createServer((request, response) => {
+      requests.push(request.url ?? "");
+      if (request.url?.startsWith("/redirect/")) {
+        response.writeHead(302, { location: decodeURIComponent(request.url.slice("/redirect/".length)) });
+        response.end();
+        return;
+      }
+      if (request.url === "/slow.yaml") {
+        setTimeout(() => response.end("x-custom: slow"), 500);
+        return;
+      }
+      const body = documents[request.url ?? ""];
+      response.statusCode = body === undefined ? 404 : 200;
+      response.end(body ?? "not found");
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await project.dispose();
+  });
+
+  const writeApi = async (ref: string) => {
+    project.files = {
+      "api.yaml": `
+paths:
+  /users:
+    $ref: "${ref}"
+`,
+    };
+    await project.write();
+  };
+
+  it("resolves http $refs and nested refs relative to the remote document", async () => {
+    await writeApi(`${baseUrl}/specs/common.yaml#/components/schemas/Error`);
+
+    const matches = await findMatches("x-custom", [`${project.baseDir}/api.yaml`]);
+
+    expect(matches.map((m) => [m.path, m.value, m.location.file])).toEqual([
+      ["paths./users.x-custom", "remote error", `${baseUrl}/specs/common.yaml`],
+      [
+        "paths./users.properties.detail.x-custom",
+        "relative to remote",
+        `${baseUrl}/specs/nested/detail.yaml`,
+      ],
+    ]);
+    expect(matches[0].location.line).toBe(5);
+  });
+
+  it("searches remote root documents", async () => {
+    const results = await find("x-custom", [`${baseUrl}/specs/api.yaml`]);
+
+    expect(results).toEqual({ "paths./users.x-custom": "remote root" });
+  });
+
+  it("parses remote documents without an extension as JSON or YAML", async () => {
+    const results = await find("x-custom", [`${baseUrl}/specs/openapi`]);
+
+    expect(results).toEqual({ "paths./users.x-custom": "json error" });
+  });
+
+  it("only fetches from allowed hosts", async () => {
+    await writeApi(`${baseUrl}/specs/common.yaml#/components/schemas/Error`);
+
+    await expect(
+      find("x-custom", [`${project.baseDir}/api.yaml`], { http: { allowedHosts: ["example.com"] } }),
+    ).rejects.toThrow('Host "127.0.0.1:');
+    expect(requests).toEqual([]);
+
+    const results = await find("x-custom", [`${project.baseDir}/api.yaml`], {
+      http: { allowedHosts: ["127.0.0.1"] },
+    });
+    expect(results).toHaveProperty("paths./users.x-custom", "remote error");
+  });
+
+  it("only follows redirects to allowed hosts", async () => {
+    const elsewhere = encodeURIComponent("http://example.com/specs/common.yaml");
+    await writeApi(`${baseUrl}/redirect/${elsewhere}`);
+
+    await expect(
+      find("x-custom", [`${project.baseDir}/api.yaml`], { http: { allowedHosts: ["127.0.0.1"] } }),
+    ).rejects.toThrow(`Host "example.com" is not allowed, cannot load ${baseUrl}/redirect/${elsewhere}`);
+    expect(requests).toEqual([`/redirect/${elsewhere}`]);
+
+    const results = await find("x-custom", [`${baseUrl}/redirect/${encodeURIComponent("/specs/api.yaml")}`], {
+      http: { allowedHosts: ["127.0.0.1"] },
+    });
+    expect(results).toEqual({ "paths./users.x-custom": "remote root" });
+  });
+
+  it("rejects redirects to other protocols", async () => {
+    const target = encodeURIComponent("file:///etc/hosts");
+    await writeApi(`${baseUrl}/redirect/${target}`);
+
+    await expect(find("x-custom", [`${project.baseDir}/api.yaml`])).rejects.toThrow(
+      `Redirect from ${baseUrl}/redirect/${target} to file:///etc/hosts is not allowed`,
+    );
+  });
+
+  it("does not make requests in offline mode", async () => {
+    await writeApi(`${baseUrl}/specs/common.yaml`);
+
+    const { diagnostics } = await search("x-custom", [`${project.baseDir}/api.yaml`], {
+      http: { offline: true },
+    });
+
+    expect(requests).toEqual([]);
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        kind: "unreadable-file",
+        file: `${baseUrl}/specs/common.yaml`,
+        message: `Cannot load ${baseUrl}/specs/common.yaml in offline mode`,
+      }),
+    ]);
+  });
+
+  it("fails requests that exceed the timeout", async () => {
+    await writeApi(`${baseUrl}/slow.yaml`);
+
+    await expect(
+      find("x-custom", [`${project.baseDir}/api.yaml`], { http: { timeout: 50 } }),
+    ).rejects.toThrow(`Timed out after 50ms loading ${baseUrl}/slow.yaml`);
+  });
+
+  it("reports non-2xx responses", async () => {
+    await writeApi(`${baseUrl}/missing.yaml`);
+
+    await expect(find("x-custom", [`${project.baseDir}/api.yaml`])).rejects.toThrow(
+      `Failed to load ${baseUrl}/missing.yaml: 404 Not Found`,
+    );
+  });
+
+  it("uses custom loaders", async () => {
+    const loaded: string[] = [];
+    const memory: Record<string, string> = {
+      "mem://specs/api.yaml": `
+paths:
+  /users:
+    $ref: "./users.yaml"
+`,
+      "mem://specs/users.yaml": `
+x-custom: from memory
+`,
+    };
+
+    const results = await find("x-custom", ["mem://specs/api.yaml"], {
+      loaders: [
+        {
+          canLoad: (location) => location.startsWith("mem://"),
+          load: async (location) => {
+            loaded.push(location);
+            return memory[location];
+          },
+        },
+      ],
+    });
+
+    expect(results).toEqual({ "paths./users.x-custom": "from memory" });
+    expect(loaded).toEqual(["mem://specs/api.yaml", "mem://specs/users.yaml"]);
+  });
+});
+
+describe("findIter", () => {
+  let project: Project;
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+    project.files = {
+      "a.yaml": `
+paths:
+  /users:
+    x-custom: 1
+    get:
+      $ref: "./shared.yaml#/Get"
+`,
+      "b.yaml": `
+paths:
+  /posts:
+    x-custom: 3
+`,
+      "shared.yaml": `
+Get:
+  x-custom: 2
+`,
+    };
+    await project.write();
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  it("yields the same matches as findMatches", async () => {
+    const files = [`${project.baseDir}/a.yaml`, `${project.baseDir}/b.yaml`];
+    const matches = [];
+    for await (const match of findIter("x-custom", files)) {
+      matches.push(match);
+    }
+
+    expect(matches).toEqual(await findMatches("x-custom", files));
+    expect(matches.map((m) => m.value)).toEqual([1, 2, 3]);
+  });
+
+  it("only walks as far as the consumer has read", async () => {
+    const loaded: string[] = [];
+    const loaders = [
+      {
+        canLoad: () => true,
+        load: async (location: string) => {
+          loaded.push(location.slice(project.baseDir.length + 1));
+          return readFile(location, "utf-8");
+        },
+      },
+    ];
+    const iterator = findIter("x-custom", [`${project.baseDir}/a.yaml`, `${project.baseDir}/b.yaml`], {
+      loaders,
+    });
+
+    expect(loaded).toEqual([]);
+    expect((await iterator.next()).value?.value).toBe(1);
+    expect(loaded).toEqual(["a.yaml"]);
+
+    const values: unknown[] = [];
+    for await (const match of iterator) {
+      values.push(match.value);
+      break;
+    }
+
+    expect(values).toEqual([2]);
+    expect(loaded).toEqual(["a.yaml", "shared.yaml"]);
+    expect(await iterator.next()).toEqual({ value: undefined, done: true });
+  });
+
+  it("answers concurrent next() calls in order", async () => {
+    const iterator = findIter("x-custom", [`${project.baseDir}/a.yaml`, `${project.baseDir}/b.yaml`]);
+
+    const results = await Promise.all([iterator.next(), iterator.next(), iterator.next(), iterator.next()]);
+
+    expect(results.map((result) => [result.value?.value, result.done])).toEqual([
+      [1, false],
+      [2, false],
+      [3, false],
+      [undefined, true],
+    ]);
+  });
+
+  it("rejects with errors from the walk", async () => {
+    const iterator = findIter("x-custom", [`${project.baseDir}/missing.yaml`]);
+
+    await expect(iterator.next()).rejects.toThrow("ENOENT");
+    expect(await iterator.next()).toEqual({ value: undefined, done: true });
+  });
+});
+
+describe("findMissing", () => {
+  let project: Project;
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+    project.files = {
+      "api.yaml": `
+openapi: 3.0.3
+paths:
+  /users:
+    x-owner: identity
+    parameters:
+      - name: tenant
+        in: header
+        x-owner: identity
+    get:
+      x-owner: identity
+      parameters:
+        - $ref: "#/components/parameters/Limit"
+      responses:
+        "200":
+          x-owner: identity
+        default:
+          $ref: "#/components/responses/Error"
+      callbacks:
+        onEvent:
+          "{$request.body#/url}":
+            post:
+              responses: {}
+    post:
+      $ref: "./operations.yaml#/CreateUser"
+components:
+  parameters:
+    Limit:
+      name: limit
+      in: query
+  responses:
+    Error:
+      description: Error
+  schemas:
+    User:
+      x-owner: identity
+      properties:
+        id:
+          type: string
+    Team:
+      $ref: "./schemas.yaml#/Team"
+`,
+      "operations.yaml": `CreateUser:
+  operationId: createUser
+`,
+      "schemas.yaml": `Team:
+  type: object
+`,
+    };
+    await project.write();
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  const missingPaths = async (at: "operation" | "pathItem" | "schema" | "parameter" | "response") =>
+    (await findMissing("x-owner", [`${project.baseDir}/api.yaml`], { at })).map((node) => node.path);
+
+  it("lists operations without the property, following their $ref", async () => {
+    const nodes = await findMissing("x-owner", [`${project.baseDir}/api.yaml`], { at: "operation" });
+
+    expect(nodes.map((node) => node.path)).toEqual([
+      "paths./users.get.callbacks.onEvent.{$request.body#/url}.post",
+      "paths./users.post",
+    ]);
+    expect(nodes[1].value).toEqual({ operationId: "createUser" });
+    expect(nodes[1].location).toEqual({
+      file: `${project.baseDir}/operations.yaml`,
+      line: 1,
+      column: 1,
+      jsonPointer: "/CreateUser",
+    });
+    expect(nodes[1].context).toMatchObject({ httpMethod: "post", operationId: "createUser" });
+    expect(nodes[1].via.map((hop) => hop.ref)).toEqual(["./operations.yaml#/CreateUser"]);
+  });
+
+  it("lists each kind of node", async () => {
+    expect(await missingPaths("pathItem")).toEqual(["paths./users.get.callbacks.onEvent.{$request.body#/url}"]);
+    expect(await missingPaths("parameter")).toEqual([
+      "paths./users.get.parameters.0.Limit",
+      "components.parameters.Limit",
+    ]);
+    expect(await missingPaths("response")).toEqual([
+      "paths./users.get.responses.default",
+      "components.responses.Error",
+    ]);
+    expect(await missingPaths("schema")).toEqual(["components.schemas.Team"]);
+  });
+
+  it("counts a property written next to a $ref in OpenAPI 3.1", async () => {
+    await writeFile(
+      `${project.baseDir}/api31.yaml`,
+      `openapi: 3.1.0
+paths:
+  /users:
+    get:
+      $ref: "./operations.yaml#/CreateUser"
+      x-owner: identity
+    post:
+      $ref: "./operations.yaml#/CreateUser"
+`,
+    );
+
+    const nodes = await findMissing("x-owner", [`${project.baseDir}/api31.yaml`], { at: "operation" });
+
+    expect(nodes.map((node) => node.path)).toEqual(["paths./users.post"]);
+  });
+
+  it("only lists nodes in scope, and works through a finder", async () => {
+    const finder = createFinder();
+    const nodes = await finder.findMissing("x-owner", [`${project.baseDir}/api.yaml`], {
+      at: "parameter",
+      scope: "components.**",
+    });
+
+    expect(nodes.map((node) => node.path)).toEqual(["components.parameters.Limit"]);
+  });
+
+  it("rejects an unknown node kind", async () => {
+    await expect(
+      findMissing("x-owner", [`${project.baseDir}/api.yaml`], { at: "tag" as "operation" }),
+    ).rejects.toThrow('Unknown node kind "tag", expected one of: operation, pathItem, schema, parameter, response');
+  });
+});
+
+describe("findEffectiveValues", () => {
+  let project: Project;
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+    project.files = {
+      "api.yaml": `
+openapi: 3.0.3
+x-auth-scope: read
+paths:
+  /users:
+    x-auth-scope: users
+    get:
+      parameters:
+        - name: limit
+          in: query
+    delete:
+      x-auth-scope: admin
+    post:
+      $ref: "./operations.yaml#/CreateUser"
+  /health:
+    get: {}
+components:
+  schemas:
+    Base:
+      x-lifecycle: stable
+    Audited:
+      allOf:
+        - properties:
+            updatedAt:
+              type: string
+        - $ref: "#/components/schemas/Base"
+    User:
+      allOf:
+        - $ref: "#/components/schemas/Audited"
+      x-lifecycle: beta
+    Team:
+      allOf:
+        - $ref: "#/components/schemas/Audited"
+    Plain:
+      type: object
+`,
+      "operations.yaml": `CreateUser:
+  operationId: createUser
+  x-auth-scope: write
+`,
+    };
+    await project.write();
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  it("takes the nearest value from the operation, path item or document", async () => {
+    const values = await findEffectiveValues<string>("x-auth-scope", [`${project.baseDir}/api.yaml`], {
+      at: "operation",
+    });
+
+    expect(values.map((v) => [v.node.path, v.value, v.source, v.match?.path])).toEqual([
+      ["paths./users.get", "users", "pathItem", "paths./users.x-auth-scope"],
+      ["paths./users.delete", "admin", "operation", "paths./users.delete.x-auth-scope"],
+      ["paths./users.post", "write", "operation", "paths./users.post.x-auth-scope"],
+      ["paths./health.get", "read", "document", "x-auth-scope"],
+    ]);
+    expect(values[2].match?.location.file).toBe(`${project.baseDir}/operations.yaml`);
+  });
+
+  it("follows the configured precedence", async () => {
+    const values = await findEffectiveValues("x-auth-scope", [`${project.baseDir}/api.yaml`], {
+      at: "parameter",
+      precedence: ["document", "pathItem"],
+    });
+
+    expect(values.map((v) => [v.node.path, v.value, v.source])).toEqual([
+      ["paths./users.get.parameters.0", "read", "document"],
+    ]);
+
+    const operationOnly = await findEffectiveValues("x-auth-scope", [`${project.baseDir}/api.yaml`], {
+      at: "operation",
+      precedence: ["operation"],
+    });
+    expect(operationOnly.filter((v) => v.source === undefined).map((v) => [v.node.path, v.value])).toEqual([
+      ["paths./users.get", undefined],
+      ["paths./health.get", undefined],
+    ]);
+  });
+
+  it("inherits schema values through allOf, depth first", async () => {
+    const values = await findEffectiveValues("x-lifecycle", [`${project.baseDir}/api.yaml`], { at: "schema" });
+
+    expect(values.map((v) => [v.node.path, v.value, v.source, v.match?.path])).toEqual([
+      ["components.schemas.Base", "stable", "schema", "components.schemas.Base.x-lifecycle"],
+      ["components.schemas.Audited", "stable", "allOf", "components.schemas.Audited.allOf.1.x-lifecycle"],
+      ["components.schemas.User", "beta", "schema", "components.schemas.User.x-lifecycle"],
+      ["components.schemas.Team", "stable", "allOf", "components.schemas.Team.allOf.0.allOf.1.x-lifecycle"],
+      ["components.schemas.Plain", undefined, undefined, undefined],
+    ]);
+    expect(values[3].match?.location.jsonPointer).toBe("/components/schemas/Base/x-lifecycle");
+  });
+
+  it("rejects unknown node kinds and levels", async () => {
+    const files = [`${project.baseDir}/api.yaml`];
+
+    await expect(findEffectiveValues("x-auth-scope", files, { at: "tag" as "operation" })).rejects.toThrow(
+      'Unknown node kind "tag"',
+    );
+    await expect(
+      findEffectiveValues("x-auth-scope", files, { at: "operation", precedence: ["server" as "document"] }),
+    ).rejects.toThrow(
+      'Unknown inheritance level "server", expected one of: operation, pathItem, schema, parameter, response, document, allOf',
+    );
+  });
+});
+
+describe("validate", () => {
+  let project: Project;
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+    project.files = {
+      "api.yaml": `
+paths:
+  /users:
+    x-rate-limit:
+      requests: many
+    get:
+      x-rate-limit:
+        requests: 100
+        window: 1m
+    post:
+      $ref: "./operations.yaml#/CreateUser"
+`,
+      "operations.yaml": `
+CreateUser:
+  x-rate-limit:
+    requests: 10
+    window: 1m
+    burst: true
+`,
+    };
+    await project.write();
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  const rateLimitSchema = {
+    type: "object",
+    required: ["requests", "window"],
+    properties: {
+      requests: { type: "integer" },
+      window: { type: "string" },
+    },
+    additionalProperties: false,
+  };
+
+  it("reports each problem with the match path and where it is written", async () => {
+    const violations = await validate("x-rate-limit", [`${project.baseDir}/api.yaml`], rateLimitSchema);
+
+    expect(
+      violations.map((v) => [v.path, v.valuePointer, v.keyword, v.message, v.location.line, v.location.column]),
+    ).toEqual([
+      ["paths./users.x-rate-limit", "", "required", "must have required property 'window'", 4, 5],
+      ["paths./users.x-rate-limit", "/requests", "type", "must be integer", 5, 7],
+      ["paths./users.post.x-rate-limit", "", "additionalProperties", "must NOT have additional properties", 3, 3],
+    ]);
+    expect(violations[2].location.file).toBe(`${project.baseDir}/operations.yaml`);
+    expect(violations[2].match.via.map((hop) => hop.ref)).toEqual(["./operations.yaml#/CreateUser"]);
+  });
+
+  it("returns no violations when every value is valid", async () => {
+    const violations = await validate("x-rate-limit", [`${project.baseDir}/api.yaml`], rateLimitSchema, {
+      scope: "paths.*.get",
+    });
+
+    expect(violations).toEqual([]);
+  });
+
+  it("uses the draft named by $schema", async () => {
+    const violations = await validate("x-rate-limit", [`${project.baseDir}/api.yaml`], {
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      type: "object",
+      dependentRequired: { burst: ["limit"] },
+    });
+
+    expect(violations.map((v) => [v.path, v.keyword])).toEqual([
+      ["paths./users.post.x-rate-limit", "dependentRequired"],
+    ]);
+  });
+
+  it("rejects an invalid schema", async () => {
+    await expect(
+      validate("x-rate-limit", [`${project.baseDir}/api.yaml`], { type: "integr" }),
+    ).rejects.toThrow(/schema is invalid/);
+  });
+});
+
+describe("rules", () => {
+  let project: Project;
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+    project.files = {
+      "api.yaml": `
+paths:
+  /users:
+    summary: Users
+    get:
+      x-owner: identity
+    post:
+      $ref: "./operations.yaml#/CreateUser"
+  /teams:
+    get:
+      x-owner: payments
+      x-internal: true
+components:
+  schemas:
+    User:
+      x-internal: true
+      properties:
+        secret:
+          x-internal: true
+`,
+      "operations.yaml": `
+CreateUser:
+  operationId: createUser
+`,
+      ".fieldfinderrc.yaml": `
+rules:
+  operation-owner:
+    property: x-owner
+    require: operations
+    values: [identity, billing]
+  no-internal-schemas:
+    property: x-internal
+    forbid: components.schemas.**
+    severity: warning
+`,
+    };
+    await project.write();
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  it("reports missing, forbidden and disallowed values in document order", async () => {
+    const rules = await loadRules(project.baseDir);
+    const { violations, diagnostics } = await checkRules([`${project.baseDir}/api.yaml`], rules);
+
+    expect(violations.map((v) => [v.rule, v.severity, v.path, v.message])).toEqual([
+      ["operation-owner", "error", "paths./users.post", "Missing x-owner"],
+      ["operation-owner", "error", "paths./teams.get.x-owner", 'x-owner must be one of "identity", "billing"'],
+      ["no-internal-schemas", "warning", "components.schemas.User.x-internal", "x-internal is not allowed here"],
+      [
+        "no-internal-schemas",
+        "warning",
+        "components.schemas.User.properties.secret.x-internal",
+        "x-internal is not allowed here",
+      ],
+    ]);
+    expect(violations[0].location).toEqual({
+      file: `${project.baseDir}/operations.yaml`,
+      line: 2,
+      column: 1,
+      jsonPointer: "/CreateUser",
+    });
+    expect(violations[0].context).toMatchObject({ httpMethod: "post", operationId: "createUser" });
+    expect(diagnostics).toEqual([]);
+  });
+
+  it("restricts where a property may appear and checks values against a schema", async () => {
+    const { violations } = await checkRules([`${project.baseDir}/api.yaml`], {
+      "internal-on-operations": { property: "x-internal", allowedIn: "operations", message: "Mark operations only" },
+      "owner-format": { property: "x-owner", schema: { type: "string", pattern: "^[a-z]+$", maxLength: 8 } },
+    });
+
+    expect(violations.map((v) => [v.rule, v.path, v.message])).toEqual([
+      ["internal-on-operations", "components.schemas.User.x-internal", "Mark operations only"],
+      ["internal-on-operations", "components.schemas.User.properties.secret.x-internal", "Mark operations only"],
+    ]);
+
+    const { violations: tooLong } = await checkRules([`${project.baseDir}/api.yaml`], {
+      "owner-format": { property: "x-owner", schema: { type: "string", maxLength: 7 } },
+    });
+    expect(tooLong.map((v) => [v.path, v.message])).toEqual([
+      ["paths./users.get.x-owner", "x-owner must NOT have more than 7 characters"],
+      ["paths./teams.get.x-owner", "x-owner must NOT have more than 7 characters"],
+    ]);
+  });
+
+  it("forbids a property anywhere, and requires it only on objects", async () => {
+    const { violations } = await checkRules([`${project.baseDir}/api.yaml`], {
+      "no-internal": { property: "x-internal", forbid: true },
+      "path-summary": { property: "summary", require: "paths.*.*" },
+    });
+
+    expect(violations.map((v) => [v.rule, v.path])).toEqual([
+      ["path-summary", "paths./users.get"],
+      ["path-summary", "paths./users.post"],
+      ["path-summary", "paths./teams.get"],
+      ["no-internal", "paths./teams.get.x-internal"],
+      ["no-internal", "components.schemas.User.x-internal"],
+      ["no-internal", "components.schemas.User.properties.secret.x-internal"],
+    ]);
+  });
+
+  it("counts a required property written next to a $ref in OpenAPI 3.1", async () => {
+    await writeFile(
+      `${project.baseDir}/api31.yaml`,
+      `openapi: 3.1.0
+components:
+  schemas:
+    A:
+      $ref: "#/components/schemas/B"
+      x-owner: me
+    B:
+      type: object
+`,
+    );
+
+    const { violations } = await checkRules([`${project.baseDir}/api31.yaml`], {
+      "schema-owner": { property: "x-owner", require: "components.schemas.*" },
+    });
+
+    expect(violations.map((v) => [v.path, v.message])).toEqual([["components.schemas.B", "Missing x-owner"]]);
+  });
+
+  it("collects problems as diagnostics", async () => {
+    const { violations, diagnostics } = await checkRules(
+      [`${project.baseDir}/api.yaml`, `${project.baseDir}/missing.yaml`],
+      { "operation-owner": { property: "x-owner", require: "operations" } },
+    );
+
+    expect(violations.map((v) => v.path)).toEqual(["paths./users.post"]);
+    expect(diagnostics.map((d) => d.kind)).toEqual(["unreadable-file"]);
+  });
+
+  it("loads the nearest rules file, or the one given", async () => {
+    await mkdir(`${project.baseDir}/specs/v1`, { recursive: true });
+    await writeFile(
+      `${project.baseDir}/specs/rules.json`,
+      JSON.stringify({ rules: { tags: { property: "tags", require: "operations" } } }),
+    );
+
+    expect(Object.keys(await loadRules(`${project.baseDir}/specs/v1`))).toEqual([
+      "operation-owner",
+      "no-internal-schemas",
+    ]);
+    expect(await loadRules(`${project.baseDir}/specs/rules.json`)).toEqual({
+      tags: { property: "tags", require: "operations" },
+    });
+  });
+
+  it("rejects malformed rules", async () => {
+    const files = [`${project.baseDir}/api.yaml`];
+
+    await expect(checkRules(files, { empty: { property: "x-owner" } })).rejects.toThrow(
+      'Invalid rule "empty": expected at least one of require, forbid, allowedIn, values or schema',
+    );
+    await expect(
+      checkRules(files, { loud: { property: "x-owner", forbid: true, severity: "fatal" as "error" } }),
+    ).rejects.toThrow('Invalid rule "loud": unknown severity "fatal", expected error or warning');
+    await expect(checkRules(files, { broken: { property: "x-owner", require: "paths['/users" } })).rejects.toThrow(
+      /^Invalid rule "broken": /,
+    );
+
+    await writeFile(`${project.baseDir}/bad.yaml`, "rules:\n  - property: x-owner\n");
+    await expect(loadRules(`${project.baseDir}/bad.yaml`)).rejects.toThrow(
+      /expected a map of rules under "rules"/,
+    );
+  });
+});
+
+describe("update", () => {
+  let project: Project;
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  it("removes properties and keeps comments and formatting", async () => {
+    project.files = {
+      "api.yaml": `# Public API
+openapi: 3.0.0
+paths:
+  /users:
+    get:
+      summary: 'List users' # shown in docs
+      x-internal: true
+      responses: {}
+`,
+    };
+    await project.write();
+
+    const written = await update("x-internal", [`${project.baseDir}/api.yaml`], () => ({ remove: true }));
+
+    expect(written).toEqual([`${project.baseDir}/api.yaml`]);
+    expect(await readFile(`${project.baseDir}/api.yaml`, "utf-8")).toBe(`# Public API
+openapi: 3.0.0
+paths:
+  /users:
+    get:
+      summary: 'List users' # shown in docs
+      responses: {}
+`);
+  });
+
+  it("sets new values and renames keys", async () => {
+    project.files = {
+      "api.yaml": `paths:
+  /users:
+    x-sdk:
+      version: 1 # bumped on release
+    x-beta: "yes"
+`,
+    };
+    await project.write();
+
+    await update<{ version: number }>("x-sdk", [`${project.baseDir}/api.yaml`], (match) => ({
+      set: { version: match.value.version + 1 },
+    }));
+    await update("x-beta", [`${project.baseDir}/api.yaml`], () => ({ rename: "x-preview", set: "no" }));
+
+    expect(await readFile(`${project.baseDir}/api.yaml`, "utf-8")).toBe(`paths:
+  /users:
+    x-sdk:
+      version: 2
+    x-preview: "no"
+`);
+  });
+
+  it("writes to external files reached through $ref, once per location", async () => {
+    project.files = {
+      "api.yaml": `paths:
+  /users:
+    $ref: "./users.yaml"
+  /people:
+    $ref: "./users.yaml"
+`,
+      "users.yaml": `# Users path item
+x-version: 1
+get:
+  summary: Get users
+`,
+    };
+    await project.write();
+
+    const calls: string[] = [];
+    const written = await update<number>("x-version", [`${project.baseDir}/api.yaml`], (match) => {
+      calls.push(match.path);
+      return { set: match.value + 1 };
+    });
+
+    expect(calls).toEqual(["paths./users.x-version"]);
+    expect(written).toEqual([`${project.baseDir}/users.yaml`]);
+    expect(await readFile(`${project.baseDir}/users.yaml`, "utf-8")).toBe(`# Users path item
+x-version: 2
+get:
+  summary: Get users
+`);
+    expect(await readFile(`${project.baseDir}/api.yaml`, "utf-8")).toContain("$ref: \"./users.yaml\"");
+  });
+
+  it("changes a property reached through YAML aliases once, at its anchor", async () => {
+    project.files = {
+      "api.yaml": `x-defaults: &defaults
+  x-internal: true
+  x-owner: identity
+paths:
+  /users:
+    <<: *defaults
+  /teams:
+    x-shared: *defaults
+`,
+    };
+    await project.write();
+
+    const calls: string[] = [];
+    await update("x-internal", [`${project.baseDir}/api.yaml`], (match) => {
+      calls.push(match.path);
+      return { remove: true };
+    });
+
+    expect(calls).toEqual(["x-defaults.x-internal"]);
+    expect(await readFile(`${project.baseDir}/api.yaml`, "utf-8")).toBe(`x-defaults: &defaults
+  x-owner: identity
+paths:
+  /users:
+    <<: *defaults
+  /teams:
+    x-shared: *defaults
+`);
+  });
+
+  it("updates JSON files keeping key order and indentation", async () => {
+    project.files = {
+      "api.json": `{
+    "paths": {
+        "/users": {
+            "x-old": 1,
+            "summary": "Users",
+            "x-internal": true
+        }
+    }
+}
+`,
+    };
+    await project.write();
+
+    await update(["x-old", "x-internal"], [`${project.baseDir}/api.json`], (match) =>
+      match.key === "x-old" ? { rename: "x-new" } : { remove: true },
+    );
+
+    expect(await readFile(`${project.baseDir}/api.json`, "utf-8")).toBe(`{
+    "paths": {
+        "/users": {
+            "x-new": 1,
+            "summary": "Users"
+        }
+    }
+}
+`);
+  });
+
+  it("rewrites only the changed spans of JSON files", async () => {
+    project.files = {
+      "api.json": `{
+  "paths": {
+    "/users": { "x-owner": "identity", "tags": ["a", "b"] },
+    "/teams": {
+      "x-owner": {
+        "team": "core"
+      },
+      "x-internal": true,
+      "summary": "Teams"
+    }
+  }
+}
+`,
+    };
+    await project.write();
+
+    await update(["x-owner", "x-internal"], [`${project.baseDir}/api.json`], (match) => {
+      if (match.key === "x-internal") {
+        return { remove: true };
+      }
+      return { set: match.path.includes("/users") ? "platform" : { team: "platform", slack: "#platform" } };
+    });
+
+    expect(await readFile(`${project.baseDir}/api.json`, "utf-8")).toBe(`{
+  "paths": {
+    "/users": { "x-owner": "platform", "tags": ["a", "b"] },
+    "/teams": {
+      "x-owner": {
+        "team": "platform",
+        "slack": "#platform"
+      },
+      "summary": "Teams"
+    }
+  }
+}
+`);
+  });
+
+  it("refuses to rename a property onto an existing key", async () => {
+    const yaml = `paths:
+  /users:
+    x-old: 1
+    x-new: 2
+`;
+    const json = `{ "paths": { "/users": { "x-old": 1, "x-new": 2 } } }
+`;
+    project.files = { "api.yaml": yaml, "api.json": json };
+    await project.write();
+
+    for (const file of ["api.yaml", "api.json"]) {
+      await expect(
+        update("x-old", [`${project.baseDir}/${file}`], () => ({ rename: "x-new" })),
+      ).rejects.toThrow(`Cannot rename /paths/~1users/x-old in ${project.baseDir}/${file}: "x-new" already exists`);
+    }
+    expect(await readFile(`${project.baseDir}/api.yaml`, "utf-8")).toBe(yaml);
+    expect(await readFile(`${project.baseDir}/api.json`, "utf-8")).toBe(json);
+  });
+
+  it("leaves files untouched when the transformer returns nothing", async () => {
+    project.files = {
+      "api.yaml": `x-custom:   1
+`,
+    };
+    await project.write();
+
+    const written = await update("x-custom", [`${project.baseDir}/api.yaml`], () => undefined);
+
+    expect(written).toEqual([]);
+    expect(await readFile(`${project.baseDir}/api.yaml`, "utf-8")).toBe(`x-custom:   1
+`);
+  });
+});
+
+describe("bundle", () => {
+  let project: Project;
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  it("moves external targets into components once and rewrites the refs", async () => {
+    project.files = {
+      "api.yaml": `openapi: 3.0.0
+paths:
+  /users:
+    $ref: "./paths/users.yaml"
+  /users/{id}:
+    get:
+      parameters:
+        - $ref: "./common.yaml#/UserId"
+      responses:
+        "200":
+          description: A user
+          content:
+            application/json:
+              schema:
+                $ref: "./schemas/user.yaml"
+components:
+  schemas:
+    Error:
+      type: object
+`,
+      paths: {
+        "users.yaml": `get:
+  responses:
+    "200":
+      description: Users
+      content:
+        application/json:
+          schema:
+            type: array
+            items:
+              $ref: "../schemas/user.yaml"
+    default:
+      $ref: "../common.yaml#/components/responses/Error"
+`,
+      },
+      schemas: {
+        "user.yaml": `type: object
+properties:
+  address:
+    $ref: "#/definitions/Address"
+definitions:
+  Address:
+    type: string
+`,
+      },
+      "common.yaml": `UserId:
+  name: id
+  in: path
+  required: true
+components:
+  responses:
+    Error:
+      description: Error
+      content:
+        application/json:
+          schema:
+            $ref: "./api.yaml#/components/schemas/Error"
+`,
+    };
+    await project.write();
+
+    const document = await bundle(`${project.baseDir}/api.yaml`);
+
+    expect(document).toEqual({
+      openapi: "3.0.0",
+      paths: {
+        "/users": {
+          get: {
+            responses: {
+              "200": {
+                description: "Users",
+                content: {
+                  "application/json": {
+                    schema: { type: "array", items: { $ref: "#/components/schemas/user" } },
+                  },
+                },
+              },
+              default: { $ref: "#/components/responses/Error" },
+            },
+          },
+        },
+        "/users/{id}": {
+          get: {
+            parameters: [{ $ref: "#/components/parameters/UserId" }],
+            responses: {
+              "200": {
+                description: "A user",
+                content: {
+                  "application/json": { schema: { $ref: "#/components/schemas/user" } },
+                },
+              },
+            },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          Error: { type: "object" },
+          user: {
+            type: "object",
+            properties: { address: { $ref: "#/components/schemas/Address" } },
+            definitions: { Address: { type: "string" } },
+          },
+          Address: { type: "string" },
+        },
+        responses: {
+          Error: {
+            description: "Error",
+            content: {
+              "application/json": { schema: { $ref: "#/components/schemas/Error" } },
+            },
+          },
+        },
+        parameters: {
+          UserId: { name: "id", in: "path", required: true },
+        },
+      },
+    });
+  });
+
+  it("renames components that clash with existing ones and keeps cycles as refs", async () => {
+    project.files = {
+      "api.yaml": `paths:
+  /nodes:
+    get:
+      responses:
+        "200":
+          description: A node
+          content:
+            application/json:
+              schema:
+                $ref: "./node.yaml#/Node"
+components:
+  schemas:
+    Node:
+      type: string
+`,
+      "node.yaml": `Node:
+  type: object
+  properties:
+    next:
+      $ref: "#/Node"
+`,
+    };
+    await project.write();
+
+    const document = await bundle(`${project.baseDir}/api.yaml`);
+
+    expect(document.components).toEqual({
+      schemas: {
+        Node: { type: "string" },
+        Node_2: {
+          type: "object",
+          properties: { next: { $ref: "#/components/schemas/Node_2" } },
+        },
+      },
+    });
+  });
+
+  it("resolves $id and $anchor refs in OpenAPI 3.1 documents", async () => {
+    project.files = {
+      "api.yaml": `openapi: 3.1.0
+paths:
+  /users:
+    get:
+      responses:
+        "200":
+          description: Users
+          content:
+            application/json:
+              schema:
+                $ref: "./schemas.yaml#user"
+`,
+      "schemas.yaml": `$defs:
+  User:
+    $anchor: user
+    properties:
+      address:
+        $ref: "https://example.com/address"
+  Address:
+    $id: https://example.com/address
+    type: object
+`,
+    };
+    await project.write();
+
+    const document = await bundle(`${project.baseDir}/api.yaml`);
+
+    expect(document.components).toEqual({
+      schemas: {
+        User: {
+          $anchor: "user",
+          properties: { address: { $ref: "#/components/schemas/Address" } },
+        },
+        Address: { $id: "https://example.com/address", type: "object" },
+      },
+    });
+  });
+
+  it("bundles the keys next to an external $ref", async () => {
+    project.files = {
+      "api.yaml": `openapi: 3.1.0
+components:
+  schemas:
+    Member:
+      $ref: "./user.yaml"
+      properties:
+        team:
+          $ref: "./team.yaml"
+`,
+      "user.yaml": `type: object
+`,
+      "team.yaml": `type: string
+`,
+    };
+    await project.write();
+
+    const document = await bundle(`${project.baseDir}/api.yaml`);
+
+    expect(document.components).toEqual({
+      schemas: {
+        Member: {
+          $ref: "#/components/schemas/user",
+          properties: { team: { $ref: "#/components/schemas/team" } },
+        },
+        user: { type: "object" },
+        team: { type: "string" },
+      },
+    });
+  });
+
+  it("points a path item that references itself at its inlined copy", async () => {
+    project.files = {
+      "api.yaml": `paths:
+  /users:
+    $ref: "./users.yaml"
+`,
+      "users.yaml": `$ref: "./users.yaml"
+`,
+    };
+    await project.write();
+
+    const document = await bundle(`${project.baseDir}/api.yaml`);
+
+    expect(document).toEqual({ paths: { "/users": { $ref: "#/paths/~1users" } } });
+  });
+
+  it("rejects when a referenced file cannot be loaded", async () => {
+    project.files = {
+      "api.yaml": `paths:
+  /users:
+    get:
+      $ref: "./missing.yaml"
+`,
+    };
+    await project.write();
+
+    await expect(bundle(`${project.baseDir}/api.yaml`)).rejects.toThrow("ENOENT");
+  });
+});
+
+describe("dereference", () => {
+  let project: Project;
+
+  beforeEach(async () => {
+    project = new Project("test-project");
+  });
+
+  afterEach(async () => {
+    await project.dispose();
+  });
+
+  it("inlines local and external refs, keeping sibling keys", async () => {
+    project.files = {
+      "api.yaml": `paths:
+  /users:
+    get:
+      parameters:
+        - $ref: "#/components/parameters/Limit"
+      responses:
+        "200":
+          $ref: "./responses.yaml#/Users"
+          description: Overridden
+components:
+  parameters:
+    Limit:
+      name: limit
+      in: query
+`,
+      "responses.yaml": `Users:
+  description: Users
+  content:
+    application/json:
+      schema:
+        $ref: "#/User"
+User:
+  type: object
+`,
+    };
+    await project.write();
+
+    const document = await dereference(`${project.baseDir}/api.yaml`);
+
+    expect(document.paths).toEqual({
+      "/users": {
+        get: {
+          parameters: [{ name: "limit", in: "query" }],
+          responses: {
+            "200": {
+              description: "Overridden",
+              content: { "application/json": { schema: { type: "object" } } },
+            },
+          },
+        },
+      },
+    });
+  });
+
+  it("resolves $id and $anchor refs in OpenAPI 3.1 documents", async () => {
+    project.files = {
+      "api.yaml": `openapi: 3.1.0
+paths:
+  /users:
+    get:
+      responses:
+        "200":
+          description: Users
+          content:
+            application/json:
+              schema:
+                $ref: "#user"
+components:
+  schemas:
+    User:
+      $anchor: user
+      properties:
+        address:
+          $ref: "https://example.com/address"
+    Address:
+      $id: https://example.com/address
+      type: object
+`,
+    };
+    await project.write();
+
+    const document = await dereference(`${project.baseDir}/api.yaml`);
+
+    expect(document.paths).toEqual({
+      "/users": {
+        get: {
+          responses: {
+            "200": {
+              description: "Users",
+              content: {
+                "application/json": {
+                  schema: {
+                    $anchor: "user",
+                    properties: {
+                      address: { $id: "https://example.com/address", type: "object" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+  });
+
+  it("points circular refs at the enclosing copy in the output", async () => {
+    project.files = {
+      "api.yaml": `paths:
+  /tree:
+    get:
+      responses:
+        "200":
+          description: A tree
+          content:
+            application/json:
+              schema:
+                $ref: "./tree.yaml"
+components:
+  schemas:
+    Node:
+      properties:
+        next:
+          $ref: "#/components/schemas/Node"
+`,
+      "tree.yaml": `type: object
+properties:
+  children:
+    type: array
+    items:
+      $ref: "./tree.yaml"
+`,
+    };
+    await project.write();
+
+    const document = await dereference(`${project.baseDir}/api.yaml`);
+
+    expect(document).toEqual({
+      paths: {
+        "/tree": {
+          get: {
+            responses: {
+              "200": {
+                description: "A tree",
+                content: {
+                  "application/json": {
+                    schema: {
+                      type: "object",
+                      properties: {
+                        children: {
+                          type: "array",
+                          items: {
+                            $ref: "#/paths/~1tree/get/responses/200/content/application~1json/schema",
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          Node: { properties: { next: { $ref: "#/components/schemas/Node" } } },
+        },
+      },
+    });
+    expect(() => JSON.stringify(document)).not.toThrow();
+  });
+});
@@ -1,48 +1,654 @@
-import { readFile } from "node:fs/promises";
-import { dirname, resolve } from "node:path";
+import { createHash } from "node:crypto";
+import { type FSWatcher, watch as watchFileSystem } from "node:fs";
+import { mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import { basename, dirname, join, resolve, sep } from "node:path";
+import { fileURLToPath } from "node:url";
+import { isDeepStrictEqual } from "node:util";
 
-import { parse as parseYaml } from "yaml";
+import { Ajv, type AnySchema } from "ajv";
+import { Ajv2019 } from "ajv/dist/2019.js";
+import { Ajv2020 } from "ajv/dist/2020.js";
+import { glob, isDynamicPattern } from "tinyglobby";
+import {
+  type Document,
+  isAlias,
+  isMap,
+  isNode,
+  isScalar,
+  isSeq,
+  LineCounter,
+  type Node,
+  parseDocument,
+  YAMLError,
+  type YAMLMap,
+} from "yaml";
 
 export type ISearchResult<T> = Record<string, T>;
 
+/**
+ * Physical location of a match in the file it was read from.
+ */
+export interface ISourceLocation {
+  /** Absolute path (or URL, for remote documents) of the file containing the matched key */
+  file: string;
+  /** 1-based line of the matched key */
+  line: number;
+  /** 1-based column of the matched key */
+  column: number;
+  /** RFC 6901 JSON Pointer to the matched key within `file` */
+  jsonPointer: string;
+}
+
+/**
+ * Predicate deciding whether a property is a match.
+ *
+ * @param key - The property key
+ * @param value - The property value
+ * @param path - Path to the property, in the `pathFormat` option's format
+ */
+export type KeyPredicate = (key: string, value: unknown, path: string) => boolean;
+
+/**
+ * Selects which properties are matches: a literal key, any of several literal
+ * keys, keys matching a regular expression, or keys accepted by a predicate.
+ *
+ * @example
+ * "x-internal"
+ * ["x-internal", "x-beta"]
+ * /^x-/
+ * (key, value) => key.startsWith("x-") && value === false
+ */
+export type PropertyMatcher = string | string[] | RegExp | KeyPredicate;
+
+/**
+ * OpenAPI-level description of where a match sits, filled in while walking.
+ * Fields are only present when the match is inside the corresponding node.
+ */
+export interface IMatchContext {
+  /** Path template of the enclosing path item (e.g. `/users/{id}`) */
+  pathTemplate?: string;
+  /** HTTP method of the enclosing operation, as written in the document (e.g. `get`) */
+  httpMethod?: string;
+  /** `operationId` of the enclosing operation */
+  operationId?: string;
+  /** `tags` of the enclosing operation */
+  tags?: string[];
+  /** The enclosing parameter */
+  parameter?: { name: string; in: string };
+  /** Type of the innermost enclosing component (e.g. `schemas`), including ones reached via $ref */
+  componentType?: string;
+  /** Name of the innermost enclosing component (e.g. `User`) */
+  componentName?: string;
+  /** Status code (or `default`) of the enclosing operation response */
+  responseStatus?: string;
+}
+
+/**
+ * A single occurrence of the searched property.
+ */
+export interface IMatch<T> {
+  /** Path to the property, written in the `pathFormat` option's format (dot notation by default, e.g. `paths./users.get.x-custom`) */
+  path: string;
+  /** Raw segments of `path` (e.g. `['paths', '/users', 'get', 'x-custom']`) */
+  segments: string[];
+  /** Absolute path of the searched file the match was reached from */
+  rootFile: string;
+  /** The property key that matched */
+  key: string;
+  /** The value of the found property */
+  value: T;
+  /** The object containing the found property */
+  parent: Record<string, unknown>;
+  /** Where the property is written, after following any $ref; `location.file` is the resolved file */
+  location: ISourceLocation;
+  /** The operation, parameter, response and component enclosing the property */
+  context: IMatchContext;
+  /**
+   * Every $ref followed to reach the property, outermost first. Empty when
+   * the property is written directly in the root file's tree.
+   */
+  via: IRefHop[];
+}
+
+/**
+ * An object reached while searching, such as an operation reported by
+ * {@link findMissing}.
+ */
+export interface INode {
+  /** Path of the object, in the `pathFormat` option's format */
+  path: string;
+  /** Raw segments of `path` */
+  segments: string[];
+  /** Absolute path of the searched file the object was reached from */
+  rootFile: string;
+  /** The object itself, after following any $ref */
+  value: Record<string, unknown>;
+  /** Where the object is written, after following any $ref; `location.file` is the resolved file */
+  location: ISourceLocation;
+  /** The operation, parameter, response and component enclosing the object, or the object itself */
+  context: IMatchContext;
+  /** Every $ref followed to reach the object, outermost first */
+  via: IRefHop[];
+}
+
+/**
+ * A $ref followed on the way to a match.
+ */
+export interface IRefHop {
+  /** The $ref (or `$dynamicRef`) value as written */
+  ref: string;
+  /** Absolute path or URL of the file the $ref is written in */
+  file: string;
+  /** Absolute path or URL of the file holding the target */
+  targetFile: string;
+  /** RFC 6901 JSON Pointer of the target within `targetFile` */
+  targetPointer: string;
+}
+
+/**
+ * How paths are written in matches, result keys and diagnostics:
+ *
+ * - `dot` - Segments joined with "." (`paths./users.get`). Readable, but
+ *   ambiguous when a key contains a dot.
+ * - `jsonPointer` - RFC 6901 JSON Pointer (`/paths/~1users/get`)
+ * - `segments` - JSON array of the segments (`["paths","/users","get"]`)
+ * - `jsonPath` - JSONPath in bracket notation (`$['paths']['/users']['get']`)
+ *
+ * Every format but `dot` can be turned back into segments with {@link parsePath}.
+ */
+export type PathFormat = "dot" | "jsonPointer" | "segments" | "jsonPath";
+
+/**
+ * How problems met while searching are handled:
+ * - `throw` rejects the search when a file cannot be read or parsed; $refs
+ *   whose JSON pointer does not resolve are skipped silently
+ * - `collect` reports every problem as an {@link IDiagnostic} and carries on
+ * - `ignore` skips every problem silently and carries on
+ */
+export type ErrorPolicy = "throw" | "collect" | "ignore";
+
+/**
+ * The kind of problem a diagnostic describes.
+ * - `broken-ref`: a local $ref that is not a JSON pointer (e.g. `#User`)
+ * - `unresolved-pointer`: a $ref whose JSON pointer does not exist in its target
+ * - `parse-error`: a file that is not valid YAML/JSON
+ * - `unreadable-file`: a file that cannot be read (missing, a directory, no permission,
+ *   or a remote document that cannot be fetched)
+ */
+export type DiagnosticKind =
+  | "broken-ref"
+  | "unresolved-pointer"
+  | "parse-error"
+  | "unreadable-file";
+
+/**
+ * A problem met while searching, collected when `onError` is `collect`.
+ */
+export interface IDiagnostic {
+  kind: DiagnosticKind;
+  /** Human-readable description of the problem */
+  message: string;
+  /** Absolute path or URL of the file that could not be loaded or resolved against */
+  file: string;
+  /** The $ref that led to the problem; absent for root files */
+  ref?: string;
+  /** Path of the object holding the $ref, in the `pathFormat` option's format; absent for root files */
+  path?: string;
+  /** Where the $ref is written; absent for root files */
+  location?: ISourceLocation;
+}
+
+/**
+ * Matches and diagnostics of a search, as returned by `search`.
+ */
+export interface ISearchReport<T> {
+  matches: IMatch<T>[];
+  diagnostics: IDiagnostic[];
+}
+
+/**
+ * Options shared by `find`, `findMatches`, `findWithCallback` and `search`.
+ */
+export interface IFindOptions {
+  /**
+   * When true, each `$ref` target is walked at most once per root file, so a
+   * component shared by several locations is only reported at the first one.
+   * By default only refs on the current ancestry chain are skipped, which
+   * still breaks cycles but reports every location that reaches a match.
+   */
+  dedupeTargets?: boolean;
+  /**
+   * Only report matches whose containing object is at a location matched by
+   * this pattern (or any of these patterns). Patterns use the same segments
+   * as the dot-notation paths: `*` matches one segment, `**` any number of
+   * segments, and segments containing dots can be written in brackets.
+   * A JSONPath-like form (`$.paths[*].get`, `$..example`) is also accepted.
+   * Subtrees that cannot match are not walked. A parameter reached through
+   * `$ref` has its component name as an extra segment
+   * (`paths./users.get.parameters.0.Limit`), which patterns must include.
+   *
+   * @example
+   * "paths.*.*"             // directly on an operation (or other path item field)
+   * "components.schemas.**" // anywhere under component schemas
+   * "paths['/users.json'].get"
+   */
+  scope?: string | string[];
+  /**
+   * How problems such as missing files or broken $refs are handled (see
+   * {@link ErrorPolicy}). Defaults to `throw`, except for `search` which
+   * defaults to `collect`.
+   */
+  onError?: ErrorPolicy;
+  /** Invoked (and awaited) for each diagnostic when `onError` is `collect` */
+  onDiagnostic?: (diagnostic: IDiagnostic) => void | Promise<void>;
+  /**
+   * Loaders used to read documents, tried in order. Defaults to a file loader
+   * followed by an HTTP(S) loader configured with the `http` option.
+   */
+  loaders?: IDocumentLoader[];
+  /** Options for the default HTTP(S) loader; ignored when `loaders` is set */
+  http?: IHttpLoaderOptions;
+  /** How paths are written (see {@link PathFormat}). Defaults to `dot`. */
+  pathFormat?: PathFormat;
+  /**
+   * Report matches in Swagger 2.0 documents at their OpenAPI 3 locations, so
+   * one property or scope works for both: `definitions.User` becomes
+   * `components.schemas.User`, a body parameter becomes `requestBody`, and
+   * body and response `schema` move under `content.<media type>`. Has no
+   * effect on OpenAPI 3 documents.
+   */
+  normalizePaths?: boolean;
+  /**
+   * Report matches inside schemas at the paths of the properties of the
+   * resulting schema: `allOf` entries are merged into the schema holding
+   * them (`Admin.allOf.1.properties.name` becomes `Admin.properties.name`),
+   * and `oneOf` and `anyOf` entries are labeled by the name of the schema
+   * they reference (`Pet.oneOf.Cat` rather than `Pet.oneOf.0`). Entries
+   * written inline keep their index. `scope` patterns match these paths.
+   */
+  schemaPaths?: boolean;
+  /**
+   * How many root files are loaded and walked at the same time. Defaults to
+   * 1. Files reached from several roots are still loaded only once.
+   */
+  concurrency?: number;
+  /**
+   * With `concurrency` above 1, deliver matches and diagnostics in the same
+   * order as a sequential search: every callback for one root file runs
+   * before any for the next. Callbacks for later roots are held back until
+   * then. The functions that collect results always do this.
+   */
+  ordered?: boolean;
+  /**
+   * Files searched inside directories given in `filePathsToSearch`, as glob
+   * patterns relative to each directory. Defaults to every `.yaml`, `.yml`
+   * and `.json` file at any depth.
+   */
+  include?: string | string[];
+  /**
+   * Files left out of directories and glob patterns given in
+   * `filePathsToSearch`, as glob patterns relative to each directory (or to
+   * the leading directories of a glob pattern, such as `specs` in
+   * `specs/*.yaml`). Defaults to leaving out `node_modules` directories.
+   * Files listed by path are always searched.
+   */
+  exclude?: string | string[];
+  /**
+   * Do not search files as roots when another searched file reaches them
+   * through external $refs, so fragment files matched by a directory or glob
+   * are only searched in the context of the documents using them. Of files
+   * that reference each other in a cycle, the first one is searched.
+   */
+  skipRefTargets?: boolean;
+}
+
+/**
+ * Reads documents for a location scheme. Locations are absolute file paths
+ * or absolute URLs (`https://example.com/common.yaml`).
+ */
+export interface IDocumentLoader {
+  /** Whether this loader reads documents at the given location */
+  canLoad: (location: string) => boolean;
+  /** Reads the raw YAML/JSON text at the given location */
+  load: (location: string) => Promise<string>;
+}
+
+/**
+ * Options for {@link createHttpLoader}.
+ */
+export interface IHttpLoaderOptions {
+  /** Milliseconds to wait for each request before failing (default: 10000) */
+  timeout?: number;
+  /**
+   * Hosts that may be fetched from, as `hostname`, `hostname:port` or
+   * `*.domain` patterns. All hosts are allowed when omitted.
+   */
+  allowedHosts?: string[];
+  /** Fail every remote load without making a request */
+  offline?: boolean;
+}
+
 export type FindCallback<T> = (
   path: string,
   content: T,
   parent: Record<string, unknown>,
+  match: IMatch<T>,
 ) => void | Promise<void>;
 
 /**
- * Parses a YAML or JSON file and returns the parsed content.
+ * A change to make to a found property, returned by an {@link UpdateTransformer}:
+ * - `{ set: value }` replaces the value
+ * - `{ remove: true }` deletes the property
+ * - `{ rename: key }` renames the property, optionally also replacing its value with `set`
+ */
+export type UpdateAction =
+  | { set: unknown }
+  | { remove: true }
+  | { rename: string; set?: unknown };
+
+/**
+ * Decides how to change a found property. Returning nothing leaves it unchanged.
+ */
+export type UpdateTransformer<T> = (
+  match: IMatch<T>,
+) => UpdateAction | void | Promise<UpdateAction | void>;
+
+/**
+ * A parsed YAML/JSON file along with the source information needed to map
+ * values back to their position in the file.
+ */
+interface IParsedFile {
+  /** Absolute path or URL of the file */
+  filePath: string;
+  /** Raw text of the file */
+  source: string;
+  /** Plain parsed content of the file */
+  content: Record<string, unknown>;
+  /** yaml Document for the file, used to look up node ranges */
+  document: Document;
+  /** Line index for converting node offsets to line and column */
+  lineCounter: LineCounter;
+}
+
+/**
+ * Returns true for absolute URLs such as `https://example.com/api.yaml`.
+ */
+export const isUrl = (location: string): boolean =>
+  /^[a-z][a-z0-9+.-]*:\/\//i.test(location);
+
+/**
+ * Normalizes a file path or URL into a location: `file:` URLs and relative
+ * paths become absolute file paths, other URLs are kept as-is.
  *
- * @param filePath - Absolute or relative path to the file
- * @returns Parsed file content as an object
- * @throws Error if file cannot be read or parsed
+ * @example
+ * toLocation('./api.yaml')
+ * // Returns: '/current/working/dir/api.yaml'
  *
  * @example
- * // For a JSON file containing: { "name": "test" }
- * const content = await parseFile('config.json')
- * // Returns: { name: 'test' }
+ * toLocation('https://example.com/api.yaml')
+ * // Returns: 'https://example.com/api.yaml'
+ */
+const toLocation = (pathOrUrl: string): string => {
+  if (pathOrUrl.toLowerCase().startsWith("file://")) {
+    return fileURLToPath(pathOrUrl);
+  }
+  return isUrl(pathOrUrl) ? pathOrUrl : resolve(pathOrUrl);
+};
+
+/**
+ * Returns true if a file path or URL has a `.yaml` or `.yml` extension.
+ */
+const isYamlLocation = (location: string): boolean => {
+  const path = (isUrl(location) ? new URL(location).pathname : location).toLowerCase();
+  return path.endsWith(".yaml") || path.endsWith(".yml");
+};
+
+/**
+ * How the text of a document is parsed: `.yaml` and `.yml` documents as YAML
+ * and other files as JSON. Other remote documents often have no extension
+ * (`https://example.com/openapi`), so they are parsed as JSON when they are
+ * valid JSON and as YAML otherwise.
+ */
+type DocumentFormat = "yaml" | "json" | "json-or-yaml";
+
+/**
+ * Returns the {@link DocumentFormat} of a file path or URL.
  *
  * @example
- * // For a YAML file containing:
- * // paths:
- * //   /users:
- * //     get:
- * //       summary: Get users
- * const content = await parseFile('openapi.yaml')
- * // Returns: { paths: { '/users': { get: { summary: 'Get users' } } } }
+ * getDocumentFormat('https://example.com/openapi?format=yaml')
+ * // Returns: 'json-or-yaml'
+ */
+const getDocumentFormat = (location: string): DocumentFormat => {
+  if (isYamlLocation(location)) {
+    return "yaml";
+  }
+  return isUrl(location) && !new URL(location).pathname.toLowerCase().endsWith(".json")
+    ? "json-or-yaml"
+    : "json";
+};
+
+/**
+ * Creates a loader reading documents from the local file system.
+ *
+ * @example
+ * const loader = createFileLoader()
+ * await loader.load('/project/api.yaml')
+ * // Returns: the file contents as text
+ */
+export const createFileLoader = (): IDocumentLoader => ({
+  canLoad: (location) => !isUrl(location),
+  load: (location) => readFile(location, "utf-8"),
+});
+
+/**
+ * Returns true if the URL's host is matched by one of the allowed host patterns.
+ */
+const isHostAllowed = (url: URL, allowedHosts: string[]): boolean =>
+  allowedHosts.some((pattern) =>
+    pattern.startsWith("*.")
+      ? url.hostname.endsWith(pattern.slice(1))
+      : pattern === url.hostname || pattern === url.host,
+  );
+
+/**
+ * The most redirects followed for one remote document.
+ */
+const MAX_REDIRECTS = 20;
+
+/**
+ * Creates a loader fetching `http:` and `https:` documents. Redirects are
+ * followed only to allowed hosts, and never from `https:` to `http:`.
+ *
+ * @param options - Timeout, host allow-list and offline mode
+ * @returns The loader
+ * @throws Error from `load` when offline, when the host or a redirect is not
+ * allowed, on timeout, or for non-2xx responses
+ *
+ * @example
+ * const loader = createHttpLoader({ allowedHosts: ['*.example.com'], timeout: 5000 })
+ * await loader.load('https://specs.example.com/common.yaml')
+ * // Returns: the response body as text
+ */
+export const createHttpLoader = (
+  options: IHttpLoaderOptions = {},
+): IDocumentLoader => {
+  const { timeout = 10000, allowedHosts, offline = false } = options;
+
+  return {
+    canLoad: (location) => /^https?:\/\//i.test(location),
+    load: async (location) => {
+      let url = new URL(location);
+      if (offline) {
+        throw new Error(`Cannot load ${location} in offline mode`);
+      }
+
+      // Redirects are followed here so that every host is checked
+      const signal = AbortSignal.timeout(timeout);
+      let response: Response;
+      for (let redirects = 0; ; redirects++) {
+        if (allowedHosts && !isHostAllowed(url, allowedHosts)) {
+          throw new Error(`Host "${url.host}" is not allowed, cannot load ${location}`);
+        }
+        try {
+          response = await fetch(url, { redirect: "manual", signal });
+        } catch (error) {
+          if ((error as Error).name === "TimeoutError") {
+            throw new Error(`Timed out after ${timeout}ms loading ${location}`);
+          }
+          throw error;
+        }
+        const redirect = response.headers.get("location");
+        if (response.status < 300 || response.status > 399 || redirect === null) {
+          break;
+        }
+        if (redirects === MAX_REDIRECTS) {
+          throw new Error(`Too many redirects loading ${location}`);
+        }
+        const next = new URL(redirect, url);
+        const downgrade = url.protocol === "https:" && next.protocol !== "https:";
+        if (downgrade || !["http:", "https:"].includes(next.protocol)) {
+          throw new Error(`Redirect from ${url.href} to ${next.href} is not allowed, cannot load ${location}`);
+        }
+        url = next;
+      }
+      if (!response.ok) {
+        throw new Error(
+          `Failed to load ${location}: ${response.status} ${response.statusText}`,
+        );
+      }
+      return response.text();
+    },
+  };
+};
+
+/**
+ * Returns the loaders to use for a search.
+ */
+const getLoaders = (options: IFindOptions): IDocumentLoader[] =>
+  options.loaders ?? [createFileLoader(), createHttpLoader(options.http)];
+
+/**
+ * Reads the raw text of a document with the first loader that handles its location.
+ *
+ * @param location - Absolute path or URL of the document
+ * @param loaders - Loaders to read the document with
+ * @returns The document text
+ * @throws Error if no loader handles the location, or the document cannot be read
+ */
+const readSource = async (location: string, loaders: IDocumentLoader[]): Promise<string> => {
+  const loader = loaders.find((candidate) => candidate.canLoad(location));
+  if (!loader) {
+    throw new Error(`No document loader can load ${location}`);
+  }
+  return loader.load(location);
+};
+
+/**
+ * Parses the text of a YAML or JSON file and returns the parsed content along
+ * with its source document. JSON content is read with `JSON.parse`; the yaml
+ * parser is only used to locate nodes, since JSON is a subset of YAML.
+ *
+ * The format is picked from the extension (see {@link DocumentFormat}).
+ *
+ * @param filePath - Absolute path or URL of the file
+ * @param source - Text of the file
+ * @returns Parsed file content and source information
+ * @throws Error if the text cannot be parsed
+ *
+ * @example
+ * const file = parseSource('/project/config.json', '{ "name": "test" }')
+ * // file.content: { name: 'test' }
+ *
+ * @example
+ * const file = parseSource('/project/openapi.yaml', 'paths:\n  /users:\n    get: {}\n')
+ * // file.content: { paths: { '/users': { get: {} } } }
+ */
+const parseSource = (filePath: string, source: string): IParsedFile => {
+  const lineCounter = new LineCounter();
+  const format = getDocumentFormat(filePath);
+
+  let json: { content: Record<string, unknown> } | undefined;
+  if (format !== "yaml") {
+    try {
+      json = { content: JSON.parse(source) as Record<string, unknown> };
+    } catch (error) {
+      if (format === "json") {
+        throw error;
+      }
+    }
+  }
+
+  if (!json) {
+    const document = parseDocument(source, { lineCounter });
+    if (document.errors.length > 0) {
+      throw document.errors[0];
+    }
+    return {
+      filePath,
+      source,
+      content: document.toJS() as Record<string, unknown>,
+      document,
+      lineCounter,
+    };
+  }
+
+  const document = parseDocument(source, { lineCounter, uniqueKeys: false });
+
+  return { filePath, source, content: json.content, document, lineCounter };
+};
+
+/**
+ * Reads and parses a YAML or JSON file (see {@link parseSource}).
+ *
+ * @param filePath - Absolute path or URL of the file
+ * @param loaders - Loaders to read the file with; the first that can load it is used
+ * @returns Parsed file content and source information
+ * @throws Error if no loader handles the location, or the file cannot be read or parsed
+ *
+ * @example
+ * const file = await parseFile('/project/openapi.yaml', [createFileLoader()])
+ * // file.content: { paths: { ... } }
  */
 const parseFile = async (
   filePath: string,
-): Promise<Record<string, unknown>> => {
-  const content = await readFile(filePath, "utf-8");
-  const ext = filePath.toLowerCase();
+  loaders: IDocumentLoader[],
+): Promise<IParsedFile> => parseSource(filePath, await readSource(filePath, loaders));
 
-  if (ext.endsWith(".yaml") || ext.endsWith(".yml")) {
-    return parseYaml(content) as Record<string, unknown>;
-  }
+/**
+ * Reads and parses the file at a location. Searches use {@link parseFile}
+ * with their loaders, while a finder (see {@link createFinder}) reuses the
+ * files it parsed for earlier searches.
+ */
+type FileParser = (location: string) => Promise<IParsedFile>;
 
-  return JSON.parse(content) as Record<string, unknown>;
+/**
+ * Loads a file through a cache of parse results. Concurrent loads of the
+ * same location share one read and parse, and a failed load fails the same
+ * way for every caller.
+ *
+ * @param location - Absolute path or URL of the file
+ * @param fileCache - Cache of loaded (or loading) files by location
+ * @param parse - Reads and parses files that are not cached yet
+ * @returns The parsed file
+ *
+ * @example
+ * const [a, b] = await Promise.all([
+ *   loadFile('/project/common.yaml', cache, parse),
+ *   loadFile('/project/common.yaml', cache, parse),
+ * ])
+ * // a === b, and the file was read once
+ */
+const loadFile = (
+  location: string,
+  fileCache: Map<string, Promise<IParsedFile>>,
+  parse: FileParser,
+): Promise<IParsedFile> => {
+  let file = fileCache.get(location);
+  if (!file) {
+    file = parse(location);
+    fileCache.set(location, file);
+  }
+  return file;
 };
 
 /**
@@ -68,6 +674,40 @@ const parseFile = async (
 const decodeJsonPointerSegment = (segment: string): string =>
   segment.replace(/~1/g, "/").replace(/~0/g, "~");
 
+/**
+ * Encodes a JSON Pointer segment according to RFC 6901.
+ * Order matters: ~ must be encoded before /.
+ *
+ * @example
+ * encodeJsonPointerSegment('/users')
+ * // Returns: '~1users'
+ */
+const encodeJsonPointerSegment = (segment: string): string =>
+  segment.replace(/~/g, "~0").replace(/\//g, "~1");
+
+/**
+ * Splits a local JSON Reference ("#/a/b") into decoded segments.
+ *
+ * @param ref - The local $ref string, starting with "#/"
+ * @returns The decoded segments
+ *
+ * @example
+ * parseJsonPointer('#/paths/~1users/get')
+ * // Returns: ['paths', '/users', 'get']
+ */
+const parseJsonPointer = (ref: string): string[] =>
+  ref.slice(2).split("/").map(decodeJsonPointerSegment);
+
+/**
+ * Builds an RFC 6901 JSON Pointer string from decoded segments.
+ *
+ * @example
+ * buildJsonPointer(['paths', '/users', 'x-foo'])
+ * // Returns: '/paths/~1users/x-foo'
+ */
+const buildJsonPointer = (segments: string[]): string =>
+  segments.map((segment) => `/${encodeJsonPointerSegment(segment)}`).join("");
+
 /**
  * Resolves a local JSON Reference ($ref) pointer to its target value.
  * Supports local references that start with "#/".
@@ -107,10 +747,18 @@ const resolveRef = (
     return undefined;
   }
 
-  const pointer = ref.slice(2);
-  const segments = pointer.split("/").map(decodeJsonPointerSegment);
+  return getValueAtPointer(rootDocument, parseJsonPointer(ref));
+};
 
-  return segments.reduce<unknown>((current, segment) => {
+/**
+ * Returns the value at decoded JSON Pointer segments, or undefined if it does not exist.
+ *
+ * @example
+ * getValueAtPointer({ paths: { '/users': { get: {} } } }, ['paths', '/users'])
+ * // Returns: { get: {} }
+ */
+const getValueAtPointer = (root: unknown, segments: string[]): unknown =>
+  segments.reduce<unknown>((current, segment) => {
     if (
       current === null ||
       current === undefined ||
@@ -119,30 +767,54 @@ const resolveRef = (
       return undefined;
     }
     return (current as Record<string, unknown>)[segment];
-  }, rootDocument);
-};
+  }, root);
 
 /**
  * Result of resolving an external file $ref reference.
  */
 interface IExternalRefResult {
-  /** Absolute path to the loaded file (for resolving nested relative refs) */
-  filePath: string;
-  /** The root document of the loaded file (for resolving local refs within it) */
-  rootDocument: Record<string, unknown>;
+  /** The loaded file (for resolving nested relative refs and local refs within it) */
+  file: IParsedFile;
   /** The resolved value at the reference path */
   value: unknown;
+  /** Decoded JSON Pointer segments of the value within the loaded file */
+  pointer: string[];
 }
 
+/**
+ * Returns the absolute path or URL of the file an external $ref points at.
+ * Relative refs are resolved against the current file, which may itself be a URL.
+ *
+ * @example
+ * getRefFilePath('../schemas.yaml#/User', '/project/paths/users.yaml')
+ * // Returns: '/project/schemas.yaml'
+ *
+ * @example
+ * getRefFilePath('./common.yaml#/Error', 'https://example.com/specs/api.yaml')
+ * // Returns: 'https://example.com/specs/common.yaml'
+ */
+const getRefFilePath = (ref: string, currentFilePath: string): string => {
+  const hashIndex = ref.indexOf("#");
+  const filePath = hashIndex === -1 ? ref : ref.slice(0, hashIndex);
+  if (isUrl(filePath)) {
+    return toLocation(filePath);
+  }
+  if (isUrl(currentFilePath)) {
+    return new URL(filePath, currentFilePath).href;
+  }
+  return resolve(dirname(currentFilePath), filePath);
+};
+
 /**
  * Resolves an external file $ref reference with caching.
  * Handles both file path and JSON pointer parts.
  * Returns both the resolved value and the file context for nested resolution.
  *
  * @param ref - The $ref string (e.g., "./schemas.yaml#/components/User")
- * @param currentFilePath - Path of the current file for relative resolution
- * @param fileCache - Cache of already-loaded files to avoid re-parsing
- * @returns Object containing the resolved value, file path, and root document
+ * @param currentFilePath - Path or URL of the current file for relative resolution
+ * @param fileCache - Cache of loaded (or loading) files to avoid re-parsing
+ * @param parse - Reads and parses files that are not cached yet
+ * @returns Object containing the resolved value, its pointer, and the loaded file
  * @throws Error if file cannot be loaded
  *
  * @example
@@ -154,12 +826,13 @@ interface IExternalRefResult {
  * const result = await resolveExternalRef(
  *   './schemas.yaml#/components/User',
  *   '/project/openapi.yaml',
- *   cache
+ *   cache,
+ *   parse
  * )
  * // Returns: {
  * //   value: { type: 'object' },
- * //   filePath: '/project/schemas.yaml',
- * //   rootDocument: { components: { User: { type: 'object' } } }
+ * //   pointer: ['components', 'User'],
+ * //   file: { filePath: '/project/schemas.yaml', content: { components: { User: { type: 'object' } } }, ... }
  * // }
  *
  * @example
@@ -167,38 +840,29 @@ interface IExternalRefResult {
  * const result = await resolveExternalRef(
  *   './common.yaml',
  *   '/project/openapi.yaml',
- *   cache
+ *   cache,
+ *   parse
  * )
  * // Returns: {
  * //   value: <entire parsed contents>,
- * //   filePath: '/project/common.yaml',
- * //   rootDocument: <entire parsed contents>
+ * //   pointer: [],
+ * //   file: { filePath: '/project/common.yaml', content: <entire parsed contents>, ... }
  * // }
  */
 const resolveExternalRef = async (
   ref: string,
   currentFilePath: string,
-  fileCache: Map<string, Record<string, unknown>>,
+  fileCache: Map<string, Promise<IParsedFile>>,
+  parse: FileParser,
 ): Promise<IExternalRefResult> => {
   const hashIndex = ref.indexOf("#");
-  const filePath = hashIndex === -1 ? ref : ref.slice(0, hashIndex);
   const jsonPointer = hashIndex === -1 ? null : ref.slice(hashIndex);
+  const file = await loadFile(getRefFilePath(ref, currentFilePath), fileCache, parse);
 
-  const absolutePath = resolve(dirname(currentFilePath), filePath);
-
-  let doc = fileCache.get(absolutePath);
-  if (!doc) {
-    doc = await parseFile(absolutePath);
-    fileCache.set(absolutePath, doc);
-  }
-
-  const value = jsonPointer ? resolveRef(jsonPointer, doc) : doc;
+  const value = jsonPointer ? resolveRef(jsonPointer, file.content) : file.content;
+  const pointer = jsonPointer?.startsWith("#/") ? parseJsonPointer(jsonPointer) : [];
 
-  return {
-    filePath: absolutePath,
-    rootDocument: doc,
-    value,
-  };
+  return { file, value, pointer };
 };
 
 /**
@@ -223,401 +887,3986 @@ const resolveExternalRef = async (
 const buildPath = (segments: string[]): string => segments.join(".");
 
 /**
- * Determines whether a $ref should contribute a component name segment to the path.
- * This is used to preserve component identifiers when parameters are referenced.
+ * Writes path segments in the given {@link PathFormat}.
+ *
+ * @param segments - Path segments
+ * @param format - Output format (default: `dot`)
+ * @returns The formatted path
+ *
+ * @example
+ * formatPath(['paths', '/users/{id}.json', 'get'], 'jsonPointer')
+ * // Returns: '/paths/~1users~1{id}.json/get'
+ *
+ * @example
+ * formatPath(['paths', "/o'clock", 'get'], 'jsonPath')
+ * // Returns: "$['paths']['/o\\'clock']['get']"
  */
-const getParameterRefSegment = (
+export const formatPath = (segments: string[], format: PathFormat = "dot"): string => {
+  switch (format) {
+    case "dot":
+      return buildPath(segments);
+    case "jsonPointer":
+      return buildJsonPointer(segments);
+    case "segments":
+      return JSON.stringify(segments);
+    case "jsonPath":
+      return `$${segments
+        .map((segment) => `['${segment.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}']`)
+        .join("")}`;
+  }
+};
+
+/**
+ * Splits a path written in the given {@link PathFormat} back into segments.
+ * `jsonPath` also accepts double-quoted names, `.name` and `[0]` steps.
+ * Dot-notation paths are split at every dot, so keys containing dots do not
+ * round-trip; use another format when that matters.
+ *
+ * @param path - A path as found in a match, result key or diagnostic
+ * @param format - The format `path` is written in (default: `dot`)
+ * @returns The path segments
+ * @throws Error if `path` is not a valid path in that format
+ *
+ * @example
+ * parsePath('/paths/~1users~1{id}.json/get', 'jsonPointer')
+ * // Returns: ['paths', '/users/{id}.json', 'get']
+ *
+ * @example
+ * parsePath("$.paths['/users'].get.parameters[0]", 'jsonPath')
+ * // Returns: ['paths', '/users', 'get', 'parameters', '0']
+ */
+export const parsePath = (path: string, format: PathFormat = "dot"): string[] => {
+  switch (format) {
+    case "dot":
+      return path === "" ? [] : path.split(".");
+    case "jsonPointer":
+      if (path !== "" && !path.startsWith("/")) {
+        throw new Error(`Invalid JSON Pointer path "${path}"`);
+      }
+      return path === "" ? [] : path.slice(1).split("/").map(decodeJsonPointerSegment);
+    case "segments": {
+      let segments: unknown;
+      try {
+        segments = JSON.parse(path);
+      } catch {
+        segments = undefined;
+      }
+      if (!Array.isArray(segments) || !segments.every((segment) => typeof segment === "string")) {
+        throw new Error(`Invalid segments path "${path}"`);
+      }
+      return segments;
+    }
+    case "jsonPath": {
+      if (!path.startsWith("$")) {
+        throw new Error(`Invalid JSONPath path "${path}"`);
+      }
+      const step = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\['((?:[^'\\]|\\.)*)'\]|\["((?:[^"\\]|\\.)*)"\]/y;
+      const segments: string[] = [];
+      for (let offset = 1; offset < path.length; offset = step.lastIndex) {
+        step.lastIndex = offset;
+        const match = step.exec(path);
+        if (!match) {
+          throw new Error(`Invalid JSONPath path "${path}"`);
+        }
+        const [, name, index, single, double] = match;
+        segments.push(name ?? index ?? (single ?? double).replace(/\\(.)/g, "$1"));
+      }
+      return segments;
+    }
+  }
+};
+
+/**
+ * Returns the component a $ref points at, if it targets a named entry of
+ * `components` (locally or in an external file).
+ *
+ * @example
+ * getRefComponent('./common.yaml#/components/schemas/Error')
+ * // Returns: { componentType: 'schemas', componentName: 'Error' }
+ *
+ * @example
+ * getRefComponent('#/paths/~1users')
+ * // Returns: null
+ *
+ * @example
+ * getRefComponent('#/definitions/User', '2.0')
+ * // Returns: { componentType: 'definitions', componentName: 'User' }
+ */
+const getRefComponent = (
   ref: string,
-  currentPath: string[],
-): string | null => {
+  specVersion: SpecVersion = "3.0",
+): { componentType: string; componentName: string } | null => {
   const pointerIndex = ref.indexOf("#/");
   if (pointerIndex === -1) {
     return null;
   }
 
-  const pointer = ref.slice(pointerIndex + 2);
-  const segments = pointer.split("/").map(decodeJsonPointerSegment);
-  const isComponentParameterRef =
-    segments.length === 3 &&
-    segments[0] === "components" &&
-    segments[1] === "parameters";
+  const segments = parseJsonPointer(ref.slice(pointerIndex));
+  if (specVersion === "2.0") {
+    return segments.length === 2 && Object.hasOwn(SWAGGER_COMPONENT_SECTIONS, segments[0])
+      ? { componentType: segments[0], componentName: segments[1] }
+      : null;
+  }
+  if (segments.length !== 3 || segments[0] !== "components") {
+    return null;
+  }
+
+  return { componentType: segments[1], componentName: segments[2] };
+};
+
+/**
+ * Determines whether a $ref should contribute a component name segment to the path.
+ * This is used to preserve component identifiers when parameters are referenced.
+ */
+const getParameterRefSegment = (
+  ref: string,
+  currentPath: string[],
+  specVersion: SpecVersion,
+): string | null => {
+  const component = getRefComponent(ref, specVersion);
+  const isComponentParameterRef = component?.componentType === "parameters";
   const isParametersArrayEntry =
     currentPath.length >= 2 &&
     currentPath[currentPath.length - 2] === "parameters" &&
     /^\d+$/.test(currentPath[currentPath.length - 1]);
 
   if (isComponentParameterRef && isParametersArrayEntry) {
-    return segments[2];
+    return component.componentName;
   }
 
   return null;
 };
 
 /**
- * Recursively walks an object tree, following $ref references, and collects
- * all occurrences of a target property.
- *
- * @param obj - The object to walk
- * @param propertyToFind - The property key to search for
- * @param rootDocument - The root document for resolving local $ref references
- * @param currentFilePath - Current file path for resolving external $ref references
- * @param currentPath - Current path segments (for building result keys)
- * @param results - Accumulator for found results
- * @param visited - Set of visited $ref paths to prevent circular references
- * @param fileCache - Cache of loaded external files
+ * HTTP methods that identify an operation within a path item.
+ */
+const HTTP_METHODS = new Set([
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+  "trace",
+]);
+
+/**
+ * Derives the match context of an object from its parent's context and its
+ * logical path. Refs are transparent to the logical path, so an operation
+ * reached through `$ref` is recognized just like an inline one.
  *
- * @example
- * const doc = {
- *   paths: {
- *     '/users': {
- *       'x-foo': { id: '123', message: 'Use /people instead' }
- *     }
- *   }
- * }
- * const results: Record<string, unknown> = {}
- * await walkObject(doc, 'x-foo', doc, '/api.yaml', [], results, new Set(), new Map())
- * // results = {
- * //   'paths./users.x-foo': { id: '123', message: 'Use /people instead' }
- * // }
+ * @param context - The context of the enclosing object
+ * @param path - Logical path segments of the object
+ * @param record - The object itself (after $ref resolution)
+ * @param specVersion - Spec version of the root document
+ * @returns The context for the object and its descendants
  *
  * @example
- * // With $ref dereferencing:
- * const doc = {
- *   paths: {
- *     '/users': { $ref: '#/components/pathItems/Users' }
- *   },
- *   components: {
- *     pathItems: {
- *       Users: {
- *         'x-foo': { id: '456', message: 'Deprecated' }
- *       }
- *     }
- *   }
- * }
- * const results: Record<string, unknown> = {}
- * await walkObject(doc, 'x-foo', doc, '/api.yaml', [], results, new Set(), new Map())
- * // results = {
- * //   'paths./users.x-foo': { id: '456', message: 'Deprecated' }
- * // }
+ * extendMatchContext(
+ *   { pathTemplate: '/users' },
+ *   ['paths', '/users', 'get'],
+ *   { operationId: 'listUsers', tags: ['users'] },
+ * )
+ * // Returns: { pathTemplate: '/users', httpMethod: 'get', operationId: 'listUsers', tags: ['users'] }
  */
-const walkObject = async (
-  obj: unknown,
-  propertyToFind: string,
-  rootDocument: Record<string, unknown>,
-  currentFilePath: string,
-  currentPath: string[],
-  results: Record<string, unknown>,
-  visited: Set<string>,
-  fileCache: Map<string, Record<string, unknown>>,
-): Promise<void> => {
-  if (obj === null || obj === undefined || typeof obj !== "object") {
-    return;
-  }
+const extendMatchContext = (
+  context: IMatchContext,
+  path: string[],
+  record: Record<string, unknown>,
+  specVersion: SpecVersion = "3.0",
+): IMatchContext => {
+  const depth = path.length;
+  const last = path[depth - 1];
+  const next: IMatchContext = { ...context };
 
-  if (Array.isArray(obj)) {
-    for (let i = 0; i < obj.length; i++) {
-      await walkObject(
-        obj[i],
-        propertyToFind,
-        rootDocument,
-        currentFilePath,
-        [...currentPath, String(i)],
-        results,
-        visited,
-        fileCache,
-      );
-    }
-    return;
+  if (depth === 2 && path[0] === "paths") {
+    next.pathTemplate = last;
   }
 
-  const record = obj as Record<string, unknown>;
+  if (depth === 3 && path[0] === "components") {
+    next.componentType = path[1];
+    next.componentName = last;
+  }
 
-  if ("$ref" in record && typeof record.$ref === "string") {
-    const ref = record.$ref;
-    const visitedKey = ref.startsWith("#")
-      ? `${currentFilePath}${ref}`
-      : resolve(dirname(currentFilePath), ref);
+  if (depth === 2 && specVersion === "2.0" && Object.hasOwn(SWAGGER_COMPONENT_SECTIONS, path[0])) {
+    next.componentType = path[0];
+    next.componentName = last;
+  }
 
-    if (visited.has(visitedKey)) {
-      return;
+  const isPathItemChild =
+    (depth === 3 && path[0] === "paths") ||
+    (depth === 4 && path[0] === "components" && path[1] === "pathItems");
+  if (isPathItemChild && HTTP_METHODS.has(last)) {
+    next.httpMethod = last;
+    delete next.operationId;
+    delete next.tags;
+    if (typeof record.operationId === "string") {
+      next.operationId = record.operationId;
     }
-    visited.add(visitedKey);
-
-    if (ref.startsWith("#")) {
-      const resolved = resolveRef(ref, rootDocument);
-      if (resolved !== undefined) {
-        const refSegment = getParameterRefSegment(ref, currentPath);
-        const nextPath = refSegment ? [...currentPath, refSegment] : currentPath;
-        await walkObject(
-          resolved,
-          propertyToFind,
-          rootDocument,
-          currentFilePath,
-          nextPath,
-          results,
-          visited,
-          fileCache,
-        );
-      }
-    } else {
-      const externalResult = await resolveExternalRef(
-        ref,
-        currentFilePath,
-        fileCache,
-      );
-      if (externalResult.value !== undefined) {
-        const refSegment = getParameterRefSegment(ref, currentPath);
-        const nextPath = refSegment ? [...currentPath, refSegment] : currentPath;
-        await walkObject(
-          externalResult.value,
-          propertyToFind,
-          externalResult.rootDocument,
-          externalResult.filePath,
-          nextPath,
-          results,
-          visited,
-          fileCache,
-        );
-      }
+    if (Array.isArray(record.tags)) {
+      next.tags = record.tags.filter((tag): tag is string => typeof tag === "string");
     }
-    return;
   }
 
-  if (propertyToFind in record) {
-    const fullPath = buildPath([...currentPath, propertyToFind]);
-    results[fullPath] = record[propertyToFind];
+  if (
+    typeof record.name === "string" &&
+    typeof record.in === "string" &&
+    (path[depth - 2] === "parameters" ||
+      (path[depth - 3] === "parameters" && /^\d+$/.test(path[depth - 2])))
+  ) {
+    next.parameter = { name: record.name, in: record.in };
   }
 
-  for (const key of Object.keys(record)) {
-    if (key === propertyToFind) {
-      continue;
-    }
-    await walkObject(
-      record[key],
-      propertyToFind,
-      rootDocument,
-      currentFilePath,
-      [...currentPath, key],
-      results,
-      visited,
-      fileCache,
-    );
+  if (
+    context.httpMethod !== undefined &&
+    path[depth - 3] === context.httpMethod &&
+    path[depth - 2] === "responses"
+  ) {
+    next.responseStatus = last;
   }
+
+  return next;
 };
 
 /**
- * Recursively walks an object tree, following $ref references, and invokes a callback
- * for each occurrence of a target property.
+ * Normalizes a {@link PropertyMatcher} into a single test function. Literal
+ * keys never look at the value or path; only predicate matchers get the
+ * formatted path, so it is built lazily.
  *
- * @param obj - The object to walk
- * @param propertyToFind - The property key to search for
- * @param rootDocument - The root document for resolving local $ref references
- * @param currentFilePath - Current file path for resolving external $ref references
- * @param currentPath - Current path segments (for building result keys)
- * @param visited - Set of visited $ref paths to prevent circular references
- * @param fileCache - Cache of loaded external files
- * @param callback - Async callback invoked for each match with (path, content, parent)
+ * @param matcher - The matcher passed to the public API
+ * @param pathFormat - How the path passed to predicates is written
+ * @returns A function testing a property key, its value and parent path segments
+ *
+ * @example
+ * const matches = createKeyMatcher(/^x-/)
+ * matches('x-foo', 1, ['paths', '/users'])
+ * // Returns: true
  */
-const walkObjectWithCallback = async <T>(
-  obj: unknown,
-  propertyToFind: string,
-  rootDocument: Record<string, unknown>,
-  currentFilePath: string,
-  currentPath: string[],
-  visited: Set<string>,
-  fileCache: Map<string, Record<string, unknown>>,
-  callback: FindCallback<T>,
-): Promise<void> => {
-  if (obj === null || obj === undefined || typeof obj !== "object") {
-    return;
+const createKeyMatcher = (
+  matcher: PropertyMatcher,
+  pathFormat?: PathFormat,
+): ((key: string, value: unknown, parentPath: string[]) => boolean) => {
+  if (typeof matcher === "string") {
+    return (key) => key === matcher;
   }
-
-  if (Array.isArray(obj)) {
-    for (let i = 0; i < obj.length; i++) {
-      await walkObjectWithCallback(
-        obj[i],
-        propertyToFind,
-        rootDocument,
-        currentFilePath,
-        [...currentPath, String(i)],
-        visited,
-        fileCache,
-        callback,
-      );
-    }
-    return;
+  if (Array.isArray(matcher)) {
+    const keys = new Set(matcher);
+    return (key) => keys.has(key);
   }
+  if (matcher instanceof RegExp) {
+    return (key) => {
+      matcher.lastIndex = 0;
+      return matcher.test(key);
+    };
+  }
+  return (key, value, parentPath) =>
+    matcher(key, value, formatPath([...parentPath, key], pathFormat));
+};
 
-  const record = obj as Record<string, unknown>;
+/**
+ * A parsed scope pattern segment: a literal key, `*` for any single segment,
+ * or `**` for any number of segments (including none).
+ */
+type ScopeToken =
+  | { type: "literal"; value: string }
+  | { type: "wildcard" }
+  | { type: "globstar" };
 
-  if ("$ref" in record && typeof record.$ref === "string") {
-    const ref = record.$ref;
-    const visitedKey = ref.startsWith("#")
-      ? `${currentFilePath}${ref}`
-      : resolve(dirname(currentFilePath), ref);
+/**
+ * Where a path stands relative to a scope pattern.
+ */
+interface IScopeState {
+  /** The pattern matches the path itself */
+  inScope: boolean;
+  /** The pattern may match the path or one of its descendants */
+  alive: boolean;
+}
 
-    if (visited.has(visitedKey)) {
-      return;
-    }
-    visited.add(visitedKey);
+/**
+ * Parses a scope pattern into tokens. Accepts dot-separated segments with
+ * optional bracket segments (`['/users.json']`, `[0]`, `[*]`), and a leading
+ * `$` with `..` for recursive descent as in JSONPath.
+ *
+ * @param pattern - The scope pattern
+ * @returns The parsed tokens
+ * @throws Error if a bracket segment is not terminated
+ *
+ * @example
+ * parseScopePattern('paths.*.get')
+ * // Returns: [{ type: 'literal', value: 'paths' }, { type: 'wildcard' }, { type: 'literal', value: 'get' }]
+ *
+ * @example
+ * parseScopePattern("$..['x.y']")
+ * // Returns: [{ type: 'globstar' }, { type: 'literal', value: 'x.y' }]
+ */
+const parseScopePattern = (pattern: string): ScopeToken[] => {
+  const tokens: ScopeToken[] = [];
+  let i = pattern.startsWith("$") ? 1 : 0;
 
-    if (ref.startsWith("#")) {
-      const resolved = resolveRef(ref, rootDocument);
-      if (resolved !== undefined) {
-        const refSegment = getParameterRefSegment(ref, currentPath);
-        const nextPath = refSegment ? [...currentPath, refSegment] : currentPath;
-        await walkObjectWithCallback(
-          resolved,
-          propertyToFind,
-          rootDocument,
-          currentFilePath,
-          nextPath,
-          visited,
-          fileCache,
-          callback,
-        );
+  while (i < pattern.length) {
+    if (pattern.startsWith("..", i)) {
+      tokens.push({ type: "globstar" });
+      i += 2;
+      continue;
+    }
+    if (pattern[i] === ".") {
+      i += 1;
+      continue;
+    }
+    if (pattern[i] === "[") {
+      const end = pattern.indexOf("]", i);
+      if (end === -1) {
+        throw new Error(`Invalid scope pattern "${pattern}": unterminated "["`);
       }
-    } else {
-      const externalResult = await resolveExternalRef(
-        ref,
-        currentFilePath,
-        fileCache,
-      );
-      if (externalResult.value !== undefined) {
-        const refSegment = getParameterRefSegment(ref, currentPath);
-        const nextPath = refSegment ? [...currentPath, refSegment] : currentPath;
-        await walkObjectWithCallback(
-          externalResult.value,
-          propertyToFind,
-          externalResult.rootDocument,
-          externalResult.filePath,
-          nextPath,
-          visited,
-          fileCache,
-          callback,
-        );
+      const inner = pattern.slice(i + 1, end).trim();
+      const quoted = /^(['"])(.*)\1$/.exec(inner);
+      if (quoted) {
+        tokens.push({ type: "literal", value: quoted[2] });
+      } else if (inner === "*") {
+        tokens.push({ type: "wildcard" });
+      } else {
+        tokens.push({ type: "literal", value: inner });
       }
+      i = end + 1;
+      continue;
     }
-    return;
-  }
 
-  if (propertyToFind in record) {
-    const fullPath = buildPath([...currentPath, propertyToFind]);
-    await callback(fullPath, record[propertyToFind] as T, record);
+    let end = i;
+    while (end < pattern.length && pattern[end] !== "." && pattern[end] !== "[") {
+      end += 1;
+    }
+    const segment = pattern.slice(i, end);
+    if (segment === "**") {
+      tokens.push({ type: "globstar" });
+    } else if (segment === "*") {
+      tokens.push({ type: "wildcard" });
+    } else {
+      tokens.push({ type: "literal", value: segment });
+    }
+    i = end;
   }
 
-  for (const key of Object.keys(record)) {
-    if (key === propertyToFind) {
-      continue;
+  return tokens;
+};
+
+/**
+ * Adds the states reachable without consuming a segment (skipping `**`).
+ */
+const closeScopeStates = (tokens: ScopeToken[], states: number[]): number[] => {
+  const closed = new Set(states);
+  for (const state of closed) {
+    if (tokens[state]?.type === "globstar") {
+      closed.add(state + 1);
     }
-    await walkObjectWithCallback(
-      record[key],
-      propertyToFind,
-      rootDocument,
-      currentFilePath,
-      [...currentPath, key],
-      visited,
-      fileCache,
-      callback,
-    );
   }
+  return [...closed];
 };
 
 /**
- * Searches for all occurrences of a property in YAML/JSON files, following $ref references.
+ * Compiles scope patterns into a function reporting whether a path is in
+ * scope, and whether anything below it could still be.
  *
- * @param propertyToFind - The property key to search for
- * @param filePathsToSearch - Array of file paths to search
- * @returns A record where keys are dot-notation paths and values are the property values
+ * @param scope - One or more scope patterns, or undefined for no restriction
+ * @returns A function evaluating a path against the patterns
  *
  * @example
- * import { find } from './extract'
+ * const matchScope = createScopeMatcher('paths.*.*')
+ * matchScope(['paths', '/users'])        // { inScope: false, alive: true }
+ * matchScope(['paths', '/users', 'get']) // { inScope: true, alive: true }
+ * matchScope(['components'])             // { inScope: false, alive: false }
+ */
+const createScopeMatcher = (
+  scope: string | string[] | undefined,
+): ((path: string[]) => IScopeState) => {
+  if (scope === undefined) {
+    return () => ({ inScope: true, alive: true });
+  }
+
+  const patterns = (Array.isArray(scope) ? scope : [scope]).map(
+    parseScopePattern,
+  );
+
+  return (path) => {
+    let inScope = false;
+    let alive = false;
+
+    for (const tokens of patterns) {
+      let states = closeScopeStates(tokens, [0]);
+      for (const segment of path) {
+        const next: number[] = [];
+        for (const state of states) {
+          const token = tokens[state];
+          if (token?.type === "globstar") {
+            next.push(state);
+          } else if (
+            token?.type === "wildcard" ||
+            (token?.type === "literal" && token.value === segment)
+          ) {
+            next.push(state + 1);
+          }
+        }
+        states = closeScopeStates(tokens, next);
+        if (states.length === 0) {
+          break;
+        }
+      }
+
+      if (states.length > 0) {
+        alive = true;
+        inScope ||= states.includes(tokens.length);
+      }
+    }
+
+    return { inScope, alive };
+  };
+};
+
+/**
+ * Returns the key of a yaml map pair as the string used in the parsed content.
+ */
+const getKeyString = (key: unknown): string =>
+  isScalar(key) ? String(key.value) : String(key);
+
+/**
+ * Looks up the line and column of a value within a parsed file. For object
+ * properties the position of the key is used, for array entries the position
+ * of the entry itself. If the pointer cannot be followed all the way (for
+ * example through a merge key), the nearest located ancestor is reported.
  *
- * // For a YAML file containing:
- * // paths:
- * //   /foo:
- * //     x-bar:
- * //       message: "Baz"
+ * @param file - The parsed file containing the value
+ * @param pointer - Decoded JSON Pointer segments of the value within the file
+ * @returns The source location of the value
  *
- * const results = await find('x-bar, ['path/to/foo.yaml'])
- * // Returns:
- * // {
- * //   'paths./foo.x-bar': {
- * //     message: "Baz",
- * //   }
+ * @example
+ * // For /project/api.yaml containing:
+ * // paths:
+ * //   /users:
+ * //     x-foo: bar
+ * getSourceLocation(file, ['paths', '/users', 'x-foo'])
+ * // Returns: {
+ * //   file: '/project/api.yaml',
+ * //   line: 3,
+ * //   column: 5,
+ * //   jsonPointer: '/paths/~1users/x-foo'
  * // }
  */
-export const find = async <T>(
-  propertyToFind: string,
-  filePathsToSearch: string[],
-): Promise<ISearchResult<T>> => {
-  const results: Record<string, unknown> = {};
-  const fileCache = new Map<string, Record<string, unknown>>();
+const getSourceLocation = (
+  file: IParsedFile,
+  pointer: string[],
+): ISourceLocation => {
+  let node: unknown = file.document.contents;
+  let offset = isNode(node) && node.range ? node.range[0] : 0;
 
-  for (const filePath of filePathsToSearch) {
-    const absolutePath = resolve(filePath);
-    const doc = await parseFile(absolutePath);
-    fileCache.set(absolutePath, doc);
+  for (const segment of pointer) {
+    if (isAlias(node)) {
+      node = node.resolve(file.document);
+    }
 
-    await walkObject(
-      doc,
-      propertyToFind,
-      doc,
-      absolutePath,
-      [],
-      results,
-      new Set(),
-      fileCache,
-    );
+    if (isMap(node)) {
+      const pair = node.items.find((item) => getKeyString(item.key) === segment);
+      if (!pair) {
+        break;
+      }
+      if (isNode(pair.key) && pair.key.range) {
+        offset = pair.key.range[0];
+      }
+      node = pair.value;
+    } else if (isSeq(node)) {
+      const item: unknown = node.items[Number(segment)];
+      if (item === undefined) {
+        break;
+      }
+      if (isNode(item) && item.range) {
+        offset = item.range[0];
+      }
+      node = item;
+    } else {
+      break;
+    }
   }
 
-  return results as ISearchResult<T>;
+  const { line, col } = file.lineCounter.linePos(offset);
+
+  return {
+    file: file.filePath,
+    line,
+    column: col,
+    jsonPointer: buildJsonPointer(pointer),
+  };
 };
 
 /**
- * Searches for all occurrences of a property in YAML/JSON files, following $ref references,
- * and invokes a callback for each match.
+ * Finds the yaml map holding the property at a JSON pointer.
+ *
+ * @param file - The parsed file
+ * @param pointer - Decoded JSON Pointer segments of the property
+ * @returns The containing map, or undefined if the pointer does not lead to a map entry
+ */
+const getYamlParentMap = (
+  file: IParsedFile,
+  pointer: string[],
+): YAMLMap<unknown, unknown> | undefined => {
+  let node: unknown = file.document.contents;
+
+  for (const segment of pointer.slice(0, -1)) {
+    if (isAlias(node)) {
+      node = node.resolve(file.document);
+    }
+    if (isMap(node)) {
+      node = node.items.find((item) => getKeyString(item.key) === segment)?.value;
+    } else if (isSeq(node)) {
+      node = node.items[Number(segment)];
+    } else {
+      return undefined;
+    }
+  }
+
+  if (isAlias(node)) {
+    node = node.resolve(file.document);
+  }
+  return isMap(node) ? node : undefined;
+};
+
+/**
+ * Checks that a rename does not land on a key the map already has.
  *
- * @param propertyToFind - The property key to search for
- * @param filePathsToSearch - Array of file paths to search
- * @param callback - Async callback invoked for each match with (path, content, parent)
+ * @throws Error if another property of the map has the new name
+ */
+const assertRenameIsFree = (
+  file: IParsedFile,
+  pointer: string[],
+  action: UpdateAction,
+  map: YAMLMap<unknown, unknown>,
+): void => {
+  if (
+    "rename" in action &&
+    action.rename !== pointer[pointer.length - 1] &&
+    map.items.some((item) => getKeyString(item.key) === action.rename)
+  ) {
+    throw new Error(
+      `Cannot rename ${buildJsonPointer(pointer)} in ${file.filePath}: "${action.rename}" already exists`,
+    );
+  }
+};
+
+/**
+ * Applies an update to the yaml Document of a file. Scalars are changed in
+ * place so that their quoting style and comments are kept.
  *
- * @example
- * import { findWithCallback } from './extract'
+ * @param file - The parsed YAML file
+ * @param pointer - Decoded JSON Pointer segments of the property to change
+ * @param action - The change to make
+ * @throws Error if the property no longer exists in the document, or a
+ * rename lands on an existing key
+ */
+const applyYamlUpdate = (
+  file: IParsedFile,
+  pointer: string[],
+  action: UpdateAction,
+): void => {
+  const key = pointer[pointer.length - 1];
+  const map = getYamlParentMap(file, pointer);
+  const index = map?.items.findIndex((item) => getKeyString(item.key) === key) ?? -1;
+  if (!map || index === -1) {
+    throw new Error(
+      `Cannot update ${buildJsonPointer(pointer)} in ${file.filePath}: property not found`,
+    );
+  }
+  assertRenameIsFree(file, pointer, action, map);
+
+  if ("remove" in action) {
+    map.items.splice(index, 1);
+    return;
+  }
+
+  const pair = map.items[index];
+  if ("rename" in action) {
+    if (isScalar(pair.key)) {
+      pair.key.value = action.rename;
+    } else {
+      pair.key = file.document.createNode(action.rename);
+    }
+  }
+  if ("set" in action) {
+    const isPrimitive = action.set === null || typeof action.set !== "object";
+    if (isScalar(pair.value) && isPrimitive) {
+      pair.value.value = action.set;
+    } else {
+      pair.value = file.document.createNode(action.set);
+    }
+  }
+};
+
+/**
+ * Applies an update to the text of a JSON file and parses it again. Only the
+ * changed span is rewritten, so the rest of the file keeps its layout. A new
+ * value stays on one line when the value it replaces was on one line, and is
+ * otherwise written with the file's indentation.
  *
- * // For a YAML file containing:
- * // paths:
- * //   /foo:
- * //     x-bar:
- * //       message: "Baz"
+ * @param file - The parsed JSON file
+ * @param pointer - Decoded JSON Pointer segments of the property to change
+ * @param action - The change to make
+ * @throws Error if the property no longer exists in the content, or a
+ * rename lands on an existing key
+ */
+const applyJsonUpdate = (
+  file: IParsedFile,
+  pointer: string[],
+  action: UpdateAction,
+): void => {
+  const key = pointer[pointer.length - 1];
+  const map = getYamlParentMap(file, pointer);
+  const index = map?.items.findIndex((item) => getKeyString(item.key) === key) ?? -1;
+  if (!map || index === -1) {
+    throw new Error(
+      `Cannot update ${buildJsonPointer(pointer)} in ${file.filePath}: property not found`,
+    );
+  }
+  assertRenameIsFree(file, pointer, action, map);
+
+  const { source } = file;
+  const getRange = (node: unknown) => (node as Node).range ?? [0, 0, 0];
+  const keyStart = (i: number) => getRange(map.items[i].key)[0];
+  const valueEnd = (i: number) => getRange(map.items[i].value)[1];
+  // Replacements as [start, end, text], applied from the end of the file
+  const edits: Array<[number, number, string]> = [];
+
+  if ("remove" in action) {
+    // Take the comma after the property, or before it when it is the last one
+    if (index < map.items.length - 1) {
+      edits.push([keyStart(index), keyStart(index + 1), ""]);
+    } else if (index > 0) {
+      edits.push([valueEnd(index - 1), valueEnd(index), ""]);
+    } else {
+      edits.push([getRange(map)[0] + 1, valueEnd(index), ""]);
+    }
+  }
+  if ("set" in action) {
+    const [start, end] = getRange(map.items[index].value);
+    if (source.slice(start, end).includes("\n")) {
+      const lineStart = source.lastIndexOf("\n", keyStart(index)) + 1;
+      const lineIndent = /^[ \t]*/.exec(source.slice(lineStart))?.[0] ?? "";
+      const indent = /^([ \t]+)"/m.exec(source)?.[1] ?? 2;
+      edits.push([start, end, JSON.stringify(action.set, null, indent).replace(/\n/g, `\n${lineIndent}`)]);
+    } else {
+      edits.push([start, end, JSON.stringify(action.set)]);
+    }
+  }
+  if ("rename" in action) {
+    const [start, end] = getRange(map.items[index].key);
+    edits.push([start, end, JSON.stringify(action.rename)]);
+  }
+
+  let text = source;
+  for (const [start, end, replacement] of edits.sort((a, b) => b[0] - a[0])) {
+    text = `${text.slice(0, start)}${replacement}${text.slice(end)}`;
+  }
+  Object.assign(file, parseSource(file.filePath, text));
+};
+
+/**
+ * Serializes a changed file. YAML files keep their comments and formatting
+ * through the yaml Document; JSON files are edited as text.
+ */
+const serializeFile = (file: IParsedFile): string =>
+  isYamlLocation(file.filePath) ? file.document.toString() : file.source;
+
+/**
+ * Applies the error policy to a problem: rethrows `error` under `throw`,
+ * passes the diagnostic on under `collect`, and drops it otherwise. Problems
+ * without an `error` (such as unresolved pointers) are never thrown.
  *
- * await findWithCallback('x-bar', ['path/to/foo.yaml'], (path, content, parent) => {
- *   console.log(path);    // 'paths./foo.x-bar'
- *   console.log(content); // { message: "Baz" }
- *   console.log(parent);  // { 'x-bar': { message: "Baz" } }
- * });
+ * @param policy - The error policy in effect
+ * @param onDiagnostic - Receives the diagnostic under `collect`
+ * @param diagnostic - Description of the problem
+ * @param error - The underlying error, if any
+ * @throws The underlying error under the `throw` policy
  */
-export const findWithCallback = async <T>(
-  propertyToFind: string,
-  filePathsToSearch: string[],
-  callback: FindCallback<T>,
+const reportProblem = async (
+  policy: ErrorPolicy,
+  onDiagnostic: IFindOptions["onDiagnostic"],
+  diagnostic: IDiagnostic,
+  error?: unknown,
 ): Promise<void> => {
-  const fileCache = new Map<string, Record<string, unknown>>();
-
-  for (const filePath of filePathsToSearch) {
-    const absolutePath = resolve(filePath);
-    const doc = await parseFile(absolutePath);
-    fileCache.set(absolutePath, doc);
-
-    await walkObjectWithCallback(
-      doc,
-      propertyToFind,
-      doc,
-      absolutePath,
-      [],
-      new Set(),
-      fileCache,
-      callback,
-    );
+  if (policy === "throw" && error !== undefined) {
+    throw error;
   }
+  if (policy === "collect") {
+    await onDiagnostic?.(diagnostic);
+  }
+};
+
+/**
+ * Classifies an error thrown while loading a file.
+ */
+const getLoadErrorKind = (error: unknown): DiagnosticKind =>
+  error instanceof SyntaxError || error instanceof YAMLError
+    ? "parse-error"
+    : "unreadable-file";
+
+/**
+ * The generation of a root document, which decides how its refs and paths
+ * are interpreted: Swagger 2.0 keeps reusable objects in top-level sections,
+ * and from OpenAPI 3.1 keys next to a $ref are meaningful and schemas follow
+ * JSON Schema 2020-12 (`$id`, `$anchor`, `$dynamicRef`).
+ */
+type SpecVersion = "2.0" | "3.0" | "3.1";
+
+/**
+ * Reads the spec version of a root document. Documents without a `swagger`
+ * or `openapi` field are treated as OpenAPI 3.0.
+ *
+ * @example
+ * getSpecVersion({ swagger: '2.0' })
+ * // Returns: '2.0'
+ *
+ * @example
+ * getSpecVersion({ openapi: '3.1.0' })
+ * // Returns: '3.1'
+ */
+const getSpecVersion = (content: unknown): SpecVersion => {
+  const { swagger, openapi } = (content ?? {}) as Record<string, unknown>;
+  if (typeof swagger === "string" && swagger.startsWith("2.")) {
+    return "2.0";
+  }
+  if (typeof openapi !== "string") {
+    return "3.0";
+  }
+  const [major, minor] = openapi.split(".").map(Number);
+  return major > 3 || (major === 3 && minor >= 1) ? "3.1" : "3.0";
+};
+
+/**
+ * Swagger 2.0 top-level sections holding reusable objects, and the
+ * `components` section each became in OpenAPI 3.
+ */
+const SWAGGER_COMPONENT_SECTIONS: Record<string, string> = {
+  definitions: "schemas",
+  parameters: "parameters",
+  responses: "responses",
+  securityDefinitions: "securitySchemes",
+};
+
+/**
+ * Splits a $ref (or `$id`) into the absolute location of the document or
+ * schema resource it names and its fragment, without the "#". Relative
+ * references are resolved against `baseUri`.
+ *
+ * @example
+ * splitRefUri('schemas/user.json#/$defs/name', 'https://example.com/api.yaml')
+ * // Returns: ['https://example.com/schemas/user.json', '/$defs/name']
+ *
+ * @example
+ * splitRefUri('#node', '/project/tree.yaml')
+ * // Returns: ['/project/tree.yaml', 'node']
+ */
+const splitRefUri = (ref: string, baseUri: string): [string, string] => {
+  const hashIndex = ref.indexOf("#");
+  const fragment = hashIndex === -1 ? "" : ref.slice(hashIndex + 1);
+  return [hashIndex === 0 ? baseUri : getRefFilePath(ref, baseUri), fragment];
+};
+
+/**
+ * Where a schema resource (`$id`) or anchor is written.
+ */
+interface ISchemaResource {
+  file: IParsedFile;
+  /** Decoded JSON Pointer segments of the identified object within `file` */
+  pointer: string[];
+}
+
+/**
+ * State the walker inherits from enclosing objects.
+ */
+interface IWalkScope {
+  /**
+   * Absolute path or URL that relative refs are resolved against. Before
+   * OpenAPI 3.1 this is always the current file; from 3.1 it follows `$id`.
+   */
+  baseUri: string;
+  /** Base URIs of the schema resources entered so far, outermost first, for `$dynamicRef` */
+  dynamicScope: string[];
+  /** Refs followed to reach the current object, outermost first */
+  via: IRefHop[];
+  /** Swagger 2.0 media type of response bodies, from the nearest `produces` */
+  produces?: string;
+  /** Swagger 2.0 media type of request bodies, from the nearest `consumes` */
+  consumes?: string;
+}
+
+/**
+ * Returns the scope for entering the schema resource at `baseUri`.
+ */
+const enterResource = (scope: IWalkScope, baseUri: string): IWalkScope => ({
+  ...scope,
+  baseUri,
+  dynamicScope:
+    scope.dynamicScope.at(-1) === baseUri ? scope.dynamicScope : [...scope.dynamicScope, baseUri],
+});
+
+/**
+ * Registers a file, every schema resource it embeds (`$id`) and every
+ * `$anchor` and `$dynamicAnchor` by absolute URI.
+ *
+ * @example
+ * // /project/api.yaml:
+ * // components:
+ * //   schemas:
+ * //     Tree:
+ * //       $id: https://example.com/tree
+ * //       $dynamicAnchor: node
+ * indexSchemaResources(file, resources)
+ * // resources keys: '/project/api.yaml', 'https://example.com/tree', 'https://example.com/tree#node'
+ */
+const indexSchemaResources = (
+  file: IParsedFile,
+  resources: Map<string, ISchemaResource>,
+): void => {
+  const visit = (value: unknown, pointer: string[], baseUri: string): void => {
+    if (value === null || typeof value !== "object") {
+      return;
+    }
+    const record = value as Record<string, unknown>;
+    let base = baseUri;
+    if (!Array.isArray(value)) {
+      if (typeof record.$id === "string") {
+        base = splitRefUri(record.$id, baseUri)[0];
+        resources.set(base, { file, pointer });
+      }
+      for (const anchor of [record.$anchor, record.$dynamicAnchor]) {
+        if (typeof anchor === "string") {
+          resources.set(`${base}#${anchor}`, { file, pointer });
+        }
+      }
+    }
+    for (const [key, child] of Object.entries(record)) {
+      visit(child, [...pointer, key], base);
+    }
+  };
+
+  resources.set(file.filePath, { file, pointer: [] });
+  visit(file.content, [], file.filePath);
+};
+
+/**
+ * Returns the base URI in effect for the object at `pointer`, applying the
+ * `$id` of each enclosing object but not the object's own.
+ *
+ * @example
+ * // content: { $defs: { user: { $id: 'https://example.com/user', properties: {} } } }
+ * getBaseUriAt(file, ['$defs', 'user', 'properties'])
+ * // Returns: 'https://example.com/user'
+ */
+const getBaseUriAt = (file: IParsedFile, pointer: string[]): string => {
+  let baseUri = file.filePath;
+  let current: unknown = file.content;
+  for (const segment of pointer) {
+    if (current === null || typeof current !== "object") {
+      break;
+    }
+    const id = (current as Record<string, unknown>).$id;
+    if (typeof id === "string" && !Array.isArray(current)) {
+      baseUri = splitRefUri(id, baseUri)[0];
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return baseUri;
+};
+
+/**
+ * A $ref that could not be resolved, reported as a diagnostic.
+ */
+interface IRefProblem {
+  kind: DiagnosticKind;
+  message: string;
+  /** The underlying load error, rethrown under the `throw` policy */
+  error?: unknown;
+}
+
+/**
+ * Returns the OpenAPI 3 location of a Swagger 2.0 object: a body parameter
+ * becomes the `requestBody` of its operation, or a `requestBodies` component
+ * when it is defined in the top-level `parameters`. Other objects keep their
+ * path.
+ *
+ * @param path - Path segments of the object, already normalized up to its parent
+ * @param value - The object (after $ref resolution)
+ *
+ * @example
+ * normalizeSwaggerPath(['paths', '/users', 'post', 'parameters', '0'], { name: 'user', in: 'body' })
+ * // Returns: ['paths', '/users', 'post', 'requestBody']
+ */
+const normalizeSwaggerPath = (path: string[], value: object): string[] => {
+  if ((value as Record<string, unknown>).in !== "body") {
+    return path;
+  }
+  if (path.length === 3 && path[0] === "components" && path[1] === "parameters") {
+    return ["components", "requestBodies", path[2]];
+  }
+
+  // Parameter refs add the component name after the index
+  const index = path.lastIndexOf("parameters");
+  const entry = path.slice(index + 1);
+  if (index > 0 && entry.length <= 2 && /^\d+$/.test(entry[0] ?? "")) {
+    return [...path.slice(0, index), "requestBody"];
+  }
+  return path;
+};
+
+/**
+ * Returns the OpenAPI 3 path of a property of a Swagger 2.0 object: the
+ * top-level sections move under `components`, and the `schema` of a request
+ * body or response moves under `content`, keyed by the nearest `consumes`
+ * or `produces` media type (`application/json` when there is none).
+ *
+ * @param path - Normalized path segments of the object holding the property
+ * @param key - The property key
+ * @param inherited - State inherited by the object's properties
+ *
+ * @example
+ * normalizeSwaggerKeyPath([], 'definitions', inherited)
+ * // Returns: ['components', 'schemas']
+ *
+ * @example
+ * normalizeSwaggerKeyPath(['paths', '/users', 'get', 'responses', '200'], 'schema', { produces: 'application/xml', ... })
+ * // Returns: ['paths', '/users', 'get', 'responses', '200', 'content', 'application/xml', 'schema']
+ */
+const normalizeSwaggerKeyPath = (
+  path: string[],
+  key: string,
+  inherited: IWalkScope,
+): string[] => {
+  if (path.length === 0 && Object.hasOwn(SWAGGER_COMPONENT_SECTIONS, key)) {
+    return ["components", SWAGGER_COMPONENT_SECTIONS[key]];
+  }
+  if (key !== "schema") {
+    return [...path, key];
+  }
+  if (path.at(-1) === "requestBody") {
+    return [...path, "content", inherited.consumes ?? "application/json", "schema"];
+  }
+
+  const isResponse =
+    path.at(-2) === "responses" &&
+    ((path.length === 3 && path[0] === "components") ||
+      (path.length === 5 && path[0] === "paths" && HTTP_METHODS.has(path[2])));
+  return isResponse
+    ? [...path, "content", inherited.produces ?? "application/json", "schema"]
+    : [...path, key];
+};
+
+/**
+ * Returns the state a Swagger 2.0 object passes to its properties, picking
+ * up the first media type of its `produces` and `consumes` lists.
+ *
+ * @example
+ * inheritSwaggerMediaTypes(inherited, { produces: ['application/xml'] })
+ * // Returns: { ...inherited, produces: 'application/xml' }
+ */
+const inheritSwaggerMediaTypes = (
+  inherited: IWalkScope,
+  record: Record<string, unknown>,
+): IWalkScope => {
+  const first = (list: unknown) =>
+    Array.isArray(list) && typeof list[0] === "string" ? list[0] : undefined;
+  const produces = first(record.produces);
+  const consumes = first(record.consumes);
+  return produces || consumes
+    ? { ...inherited, produces: produces ?? inherited.produces, consumes: consumes ?? inherited.consumes }
+    : inherited;
+};
+
+/**
+ * Returns the name of the schema a $ref points at: the last segment of its
+ * JSON pointer, its anchor, or else the name of the file without extension.
+ *
+ * @example
+ * getRefName('#/components/schemas/Cat')  // Returns: 'Cat'
+ * getRefName('./schemas/dog.yaml')        // Returns: 'dog'
+ * getRefName('https://example.com/pet#cat') // Returns: 'cat'
+ */
+const getRefName = (ref: string): string => {
+  const hashIndex = ref.indexOf("#");
+  const fragment = hashIndex === -1 ? "" : ref.slice(hashIndex + 1);
+  if (fragment.startsWith("/")) {
+    return parseJsonPointer(`#${fragment}`).at(-1) as string;
+  }
+  if (fragment.length > 0) {
+    return fragment;
+  }
+  return basename(hashIndex === -1 ? ref : ref.slice(0, hashIndex)).replace(/\.(ya?ml|json)$/, "");
+};
+
+/**
+ * Returns the schema path of an array entry (see {@link IFindOptions.schemaPaths}):
+ * an `allOf` entry takes the path of the schema holding it, and a `oneOf` or
+ * `anyOf` entry written as a $ref is labeled by the name of the referenced schema.
+ *
+ * @param path - Path segments of the array
+ * @param entry - The array entry
+ * @param index - Index of the entry
+ *
+ * @example
+ * getSchemaEntryPath(['components', 'schemas', 'Admin', 'allOf'], { properties: {} }, 1)
+ * // Returns: ['components', 'schemas', 'Admin']
+ *
+ * @example
+ * getSchemaEntryPath(['components', 'schemas', 'Pet', 'oneOf'], { $ref: '#/components/schemas/Cat' }, 0)
+ * // Returns: ['components', 'schemas', 'Pet', 'oneOf', 'Cat']
+ */
+const getSchemaEntryPath = (path: string[], entry: unknown, index: number): string[] => {
+  const keyword = path.at(-1);
+  if (keyword === "allOf") {
+    return path.slice(0, -1);
+  }
+  const ref = entry !== null && typeof entry === "object" ? (entry as Record<string, unknown>).$ref : undefined;
+  if ((keyword === "oneOf" || keyword === "anyOf") && typeof ref === "string") {
+    return [...path, getRefName(ref)];
+  }
+  return [...path, String(index)];
+};
+
+/**
+ * State shared by every step of a single walk.
+ */
+interface IWalkContext {
+  /** Absolute path of the root file being walked */
+  rootFile: string;
+  /** Tests whether a property is a match */
+  matchesKey: (key: string, value: unknown, parentPath: string[]) => boolean;
+  /** Evaluates an object's path against the `scope` option */
+  matchScope: (path: string[]) => IScopeState;
+  /** Set of $ref paths on the current ancestry chain to prevent circular references */
+  visited: Set<string>;
+  /** Cache of loaded files */
+  fileCache: Map<string, Promise<IParsedFile>>;
+  /** Reads and parses files that are not cached yet */
+  parse: FileParser;
+  /** Keep $ref paths in `visited` after walking them so each target is walked once */
+  dedupeTargets: boolean;
+  /** Spec version of the root file, which decides how refs and paths are interpreted */
+  specVersion: SpecVersion;
+  /** Report Swagger 2.0 locations at their OpenAPI 3 equivalents */
+  normalizePaths: boolean;
+  /** Report paths within schemas with `allOf` merged and `oneOf`/`anyOf` entries named */
+  schemaPaths: boolean;
+  /** How reported paths are written */
+  pathFormat: PathFormat;
+  /** Schema resources and anchors by absolute URI, filled as files are loaded under 3.1 */
+  resources: Map<string, ISchemaResource>;
+  /** Invoked (and awaited) for each match */
+  onMatch: (match: IMatch<unknown>) => void | Promise<void>;
+  /** Invoked (and awaited) for each object in scope, before its matches */
+  onObject?: (object: INode) => void | Promise<void>;
+  /** How problems are handled */
+  onError: ErrorPolicy;
+  /** Receives diagnostics under the `collect` policy */
+  onDiagnostic: IFindOptions["onDiagnostic"];
+}
+
+/**
+ * Recursively walks an object tree, following $ref references, and reports
+ * each matching property to `context.onMatch` (and each object in scope to
+ * `context.onObject`, when set). Matched properties are reported
+ * before their siblings are walked, and their values are not searched.
+ * Objects outside the `scope` option are pruned before any $ref is followed.
+ * Keys next to a $ref are only walked in OpenAPI 3.1 and later documents; in
+ * earlier versions the $ref replaces the whole object.
+ *
+ * Two paths are tracked while walking: `currentPath` is the logical location
+ * as seen from the root file (refs are transparent), while `currentPointer` is
+ * the physical location within `file`, which changes whenever a $ref is
+ * followed.
+ *
+ * @param obj - The object to walk
+ * @param file - The file `obj` was read from, used to resolve $ref references
+ * @param currentPath - Current path segments (for building result keys)
+ * @param currentPointer - JSON Pointer segments of `obj` within `file`
+ * @param matchContext - OpenAPI context of the enclosing object
+ * @param inherited - State inherited from enclosing objects
+ * @param context - State shared by the whole walk
+ *
+ * @example
+ * const doc = {
+ *   paths: {
+ *     '/users': { $ref: '#/components/pathItems/Users' }
+ *   },
+ *   components: {
+ *     pathItems: {
+ *       Users: {
+ *         'x-foo': { id: '456', message: 'Deprecated' }
+ *       }
+ *     }
+ *   }
+ * }
+ * await walkObject(file.content, file, [], [], {}, { baseUri: '/api.yaml', dynamicScope: ['/api.yaml'], via: [] }, {
+ *   rootFile: '/api.yaml',
+ *   matchesKey: createKeyMatcher('x-foo'),
+ *   matchScope: createScopeMatcher(undefined),
+ *   visited: new Set(),
+ *   fileCache: new Map(),
+ *   parse: (location) => parseFile(location, [createFileLoader()]),
+ *   dedupeTargets: false,
+ *   specVersion: '3.0',
+ *   normalizePaths: false,
+ *   schemaPaths: false,
+ *   pathFormat: 'dot',
+ *   resources: new Map(),
+ *   onMatch: (match) => console.log(match.path, match.location.jsonPointer),
+ *   onError: 'throw',
+ *   onDiagnostic: undefined,
+ * })
+ * // Logs:
+ * // paths./users.x-foo /components/pathItems/Users/x-foo
+ * // components.pathItems.Users.x-foo /components/pathItems/Users/x-foo
+ */
+const walkObject = async (
+  obj: unknown,
+  file: IParsedFile,
+  currentPath: string[],
+  currentPointer: string[],
+  matchContext: IMatchContext,
+  inherited: IWalkScope,
+  context: IWalkContext,
+): Promise<void> => {
+  if (obj === null || obj === undefined || typeof obj !== "object") {
+    return;
+  }
+
+  const recordPath = context.normalizePaths ? normalizeSwaggerPath(currentPath, obj) : currentPath;
+
+  // With `schemaPaths`, the entries of an `allOf` take the path of the schema holding it
+  const isMergedAllOf = context.schemaPaths && Array.isArray(obj) && recordPath.at(-1) === "allOf";
+  const scope = context.matchScope(isMergedAllOf ? recordPath.slice(0, -1) : recordPath);
+  if (!scope.alive) {
+    return;
+  }
+
+  if (Array.isArray(obj)) {
+    for (let i = 0; i < obj.length; i++) {
+      await walkObject(
+        obj[i],
+        file,
+        context.schemaPaths ? getSchemaEntryPath(recordPath, obj[i], i) : [...recordPath, String(i)],
+        [...currentPointer, String(i)],
+        matchContext,
+        inherited,
+        context,
+      );
+    }
+    return;
+  }
+
+  const record = obj as Record<string, unknown>;
+  const { matchesKey } = context;
+  const schemaKeywords = context.specVersion === "3.1";
+
+  if (!schemaKeywords && typeof record.$ref === "string") {
+    await walkRef(record.$ref, false, file, recordPath, currentPointer, matchContext, inherited, context);
+    return;
+  }
+
+  let childScope =
+    schemaKeywords && typeof record.$id === "string"
+      ? enterResource(inherited, splitRefUri(record.$id, inherited.baseUri)[0])
+      : inherited;
+  if (context.normalizePaths) {
+    childScope = inheritSwaggerMediaTypes(childScope, record);
+  }
+  const getChildPath = (key: string) =>
+    context.normalizePaths
+      ? normalizeSwaggerKeyPath(recordPath, key, childScope)
+      : [...recordPath, key];
+  const isRefKeyword = (key: string) =>
+    schemaKeywords && (key === "$ref" || key === "$dynamicRef") && typeof record[key] === "string";
+
+  const recordContext = extendMatchContext(matchContext, recordPath, record, context.specVersion);
+  const keys = Object.keys(record);
+
+  // An object holding a $ref is reported once, at its target
+  if (scope.inScope && context.onObject && !keys.some(isRefKeyword)) {
+    await context.onObject({
+      path: formatPath(recordPath, context.pathFormat),
+      segments: recordPath,
+      rootFile: context.rootFile,
+      value: record,
+      location: getSourceLocation(file, currentPointer),
+      context: recordContext,
+      via: inherited.via,
+    });
+  }
+
+  const matchedKeys = scope.inScope
+    ? keys.filter((key) => !isRefKeyword(key) && matchesKey(key, record[key], recordPath))
+    : [];
+
+  for (const key of matchedKeys) {
+    await context.onMatch({
+      path: formatPath(getChildPath(key), context.pathFormat),
+      segments: getChildPath(key),
+      rootFile: context.rootFile,
+      key,
+      value: record[key],
+      parent: record,
+      location: getSourceLocation(file, [...currentPointer, key]),
+      context: recordContext,
+      via: inherited.via,
+    });
+  }
+
+  for (const key of keys) {
+    if (matchedKeys.includes(key)) {
+      continue;
+    }
+    if (isRefKeyword(key)) {
+      await walkRef(
+        record[key] as string,
+        key === "$dynamicRef",
+        file,
+        recordPath,
+        currentPointer,
+        matchContext,
+        childScope,
+        context,
+      );
+      continue;
+    }
+    await walkObject(
+      record[key],
+      file,
+      getChildPath(key),
+      [...currentPointer, key],
+      recordContext,
+      childScope,
+      context,
+    );
+  }
+};
+
+/**
+ * Resolves a $ref found while walking. Before OpenAPI 3.1, refs are file
+ * paths or URLs with an optional JSON Pointer. From 3.1, refs are resolved
+ * against the enclosing `$id`, may name an embedded schema resource or an
+ * `$anchor`, and a `$dynamicRef` to a `$dynamicAnchor` resolves to the
+ * outermost resource in the dynamic scope that declares the same anchor.
+ *
+ * @param ref - The $ref (or $dynamicRef) value
+ * @param dynamic - Whether the ref is a `$dynamicRef`
+ * @param file - The file the ref is written in
+ * @param inherited - State inherited from the object holding the ref
+ * @param context - State shared by the whole walk
+ * @returns The target, or the problem to report
+ *
+ * @example
+ * await resolveWalkRef('#node', true, file, { baseUri: 'https://example.com/tree', dynamicScope }, context)
+ * // Returns: { file, value: <schema with $dynamicAnchor: node>, pointer: ['$defs', 'node'] }
+ */
+const resolveWalkRef = async (
+  ref: string,
+  dynamic: boolean,
+  file: IParsedFile,
+  inherited: Pick<IWalkScope, "baseUri" | "dynamicScope">,
+  context: Pick<IWalkContext, "specVersion" | "fileCache" | "parse" | "resources">,
+): Promise<IExternalRefResult | IRefProblem> => {
+  const [location, fragment] = splitRefUri(ref, inherited.baseUri);
+
+  if (context.specVersion !== "3.1") {
+    if (ref.startsWith("#")) {
+      const value = resolveRef(ref, file.content);
+      if (value !== undefined) {
+        return { file, value, pointer: parseJsonPointer(ref) };
+      }
+      return ref.startsWith("#/")
+        ? { kind: "unresolved-pointer", message: `JSON pointer "${ref}" not found in ${file.filePath}` }
+        : { kind: "broken-ref", message: `Unsupported local $ref "${ref}" in ${file.filePath}` };
+    }
+    try {
+      const result = await resolveExternalRef(ref, file.filePath, context.fileCache, context.parse);
+      if (result.value !== undefined) {
+        return result;
+      }
+    } catch (error) {
+      return { kind: getLoadErrorKind(error), message: (error as Error).message, error };
+    }
+    return { kind: "unresolved-pointer", message: `JSON pointer "#${fragment}" not found in ${location}` };
+  }
+
+  if (!context.resources.has(location)) {
+    try {
+      indexSchemaResources(
+        await loadFile(location, context.fileCache, context.parse),
+        context.resources,
+      );
+    } catch (error) {
+      return { kind: getLoadErrorKind(error), message: (error as Error).message, error };
+    }
+  }
+  const target = context.resources.get(location) as ISchemaResource;
+
+  if (fragment === "" || fragment.startsWith("/")) {
+    const pointer = [...target.pointer, ...(fragment === "" ? [] : parseJsonPointer(`#${fragment}`))];
+    const value = getValueAtPointer(target.file.content, pointer);
+    return value === undefined
+      ? { kind: "unresolved-pointer", message: `JSON pointer "#${fragment}" not found in ${location}` }
+      : { file: target.file, value, pointer };
+  }
+
+  let anchor = context.resources.get(`${location}#${fragment}`);
+  if (!anchor) {
+    return { kind: "broken-ref", message: `Anchor "#${fragment}" not found in ${location}` };
+  }
+  const declaresDynamicAnchor = (candidate: ISchemaResource) =>
+    (getValueAtPointer(candidate.file.content, candidate.pointer) as Record<string, unknown>).$dynamicAnchor ===
+    fragment;
+  if (dynamic && declaresDynamicAnchor(anchor)) {
+    anchor =
+      inherited.dynamicScope
+        .map((baseUri) => context.resources.get(`${baseUri}#${fragment}`))
+        .find((candidate) => candidate !== undefined && declaresDynamicAnchor(candidate)) ?? anchor;
+  }
+  return {
+    file: anchor.file,
+    value: getValueAtPointer(anchor.file.content, anchor.pointer),
+    pointer: anchor.pointer,
+  };
+};
+
+/**
+ * Follows a $ref (or, from OpenAPI 3.1, a $dynamicRef) found while walking
+ * and walks its target at the referencing path. Refs already on the current
+ * ancestry chain are skipped, which breaks cycles, and problems are reported
+ * according to the error policy.
+ *
+ * @param ref - The $ref value
+ * @param dynamic - Whether the ref is a `$dynamicRef`
+ * @param file - The file the ref is written in
+ * @param currentPath - Path segments of the object holding the ref
+ * @param currentPointer - JSON Pointer segments of that object within `file`
+ * @param matchContext - OpenAPI context of the object holding the ref
+ * @param inherited - State inherited from the object holding the ref
+ * @param context - State shared by the whole walk
+ */
+const walkRef = async (
+  ref: string,
+  dynamic: boolean,
+  file: IParsedFile,
+  currentPath: string[],
+  currentPointer: string[],
+  matchContext: IMatchContext,
+  inherited: IWalkScope,
+  context: IWalkContext,
+): Promise<void> => {
+  const { visited } = context;
+  const [targetFile, fragment] = splitRefUri(ref, inherited.baseUri);
+  const visitedKey = ref.includes("#") ? `${targetFile}#${fragment}` : targetFile;
+
+  if (visited.has(visitedKey)) {
+    return;
+  }
+  visited.add(visitedKey);
+
+  const refSegment = getParameterRefSegment(ref, currentPath, context.specVersion);
+  const nextPath = refSegment ? [...currentPath, refSegment] : currentPath;
+  const component = getRefComponent(ref, context.specVersion);
+  if (component && context.normalizePaths) {
+    component.componentType = SWAGGER_COMPONENT_SECTIONS[component.componentType];
+  }
+  const nextContext = component ? { ...matchContext, ...component } : matchContext;
+
+  const target = await resolveWalkRef(ref, dynamic, file, inherited, context);
+  if ("kind" in target) {
+    await reportProblem(
+      context.onError,
+      context.onDiagnostic,
+      {
+        kind: target.kind,
+        message: target.message,
+        file: targetFile,
+        ref,
+        path: formatPath(currentPath, context.pathFormat),
+        location: getSourceLocation(file, [...currentPointer, dynamic ? "$dynamicRef" : "$ref"]),
+      },
+      target.error,
+    );
+  } else {
+    const via = [
+      ...inherited.via,
+      {
+        ref,
+        file: file.filePath,
+        targetFile: target.file.filePath,
+        targetPointer: buildJsonPointer(target.pointer),
+      },
+    ];
+    let targetScope: IWalkScope = { ...inherited, baseUri: target.file.filePath, via };
+    if (context.specVersion === "3.1") {
+      const baseUri = getBaseUriAt(target.file, target.pointer);
+      // A target with its own $id enters its resource when it is walked
+      targetScope =
+        typeof (target.value as Record<string, unknown> | null)?.$id === "string"
+          ? { ...inherited, baseUri, via }
+          : enterResource({ ...inherited, via }, baseUri);
+    }
+    await walkObject(
+      target.value,
+      target.file,
+      nextPath,
+      target.pointer,
+      nextContext,
+      targetScope,
+      context,
+    );
+  }
+
+  if (!context.dedupeTargets) {
+    visited.delete(visitedKey);
+  }
+};
+
+/**
+ * Delivers callbacks from root files that are walked concurrently. Callbacks
+ * for the earliest unfinished root run straight away; those for later roots
+ * are held until every earlier root has finished, and then run in order.
+ */
+interface IOrderedDelivery {
+  /** Runs (or holds back) a callback for the root at `index` */
+  deliver: (index: number, callback: () => void | Promise<void>) => Promise<void>;
+  /** Marks the root at `index` as done, running held-back callbacks that are now due */
+  finish: (index: number) => Promise<void>;
+}
+
+/**
+ * Creates the ordered delivery for `count` root files (see {@link IOrderedDelivery}).
+ *
+ * @example
+ * const delivery = createOrderedDelivery(2)
+ * await delivery.deliver(1, () => console.log('b')) // held back
+ * await delivery.deliver(0, () => console.log('a')) // Prints: a
+ * await delivery.finish(0)                          // Prints: b
+ */
+const createOrderedDelivery = (count: number): IOrderedDelivery => {
+  const pending = Array.from({ length: count }, () => [] as Array<() => void | Promise<void>>);
+  const finished = new Array<boolean>(count).fill(false);
+  let current = 0;
+  let flushing = false;
+
+  return {
+    deliver: async (index, callback) => {
+      if (index === current && !flushing) {
+        await callback();
+      } else {
+        pending[index].push(callback);
+      }
+    },
+    finish: async (index) => {
+      finished[index] = true;
+      // The worker already flushing picks this root up when it gets to it
+      if (index !== current || flushing) {
+        return;
+      }
+      flushing = true;
+      try {
+        while (current < count && finished[current]) {
+          current++;
+          for (let callback; current < count && (callback = pending[current].shift()); ) {
+            await callback();
+          }
+        }
+      } finally {
+        flushing = false;
+      }
+    },
+  };
+};
+
+/** Files searched inside directories when `include` is not set */
+const DEFAULT_INCLUDE = ["**/*.yaml", "**/*.yml", "**/*.json"];
+
+/** Files left out of directories and glob patterns when `exclude` is not set */
+const DEFAULT_EXCLUDE = ["**/node_modules/**"];
+
+/**
+ * Returns true if a local path is an existing directory.
+ */
+const isDirectory = async (location: string): Promise<boolean> => {
+  try {
+    return (await stat(location)).isDirectory();
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Expands glob patterns and directories into the files a search starts from.
+ * Directories are searched for the `include` patterns, and `exclude` patterns
+ * are left out of both. Plain paths and URLs are kept as given, so that a
+ * missing file is reported by the search rather than silently skipped. Files
+ * are returned as absolute paths, each once, with the files of each pattern
+ * or directory sorted.
+ *
+ * @param filePathsToSearch - File paths, directories, glob patterns and URLs
+ * @param options - The `include` and `exclude` patterns (see {@link IFindOptions})
+ * @returns Absolute file paths and URLs
+ *
+ * @example
+ * await expandFilePaths(['specs', 'legacy/*.json', 'https://example.com/api.yaml'])
+ * // Returns: [
+ * //   '/project/specs/api.yaml',
+ * //   '/project/specs/common/errors.yaml',
+ * //   '/project/legacy/api.json',
+ * //   'https://example.com/api.yaml'
+ * // ]
+ */
+export const expandFilePaths = async (
+  filePathsToSearch: string[],
+  options: Pick<IFindOptions, "include" | "exclude"> = {},
+): Promise<string[]> => {
+  const include = options.include === undefined ? DEFAULT_INCLUDE : [options.include].flat();
+  const exclude = options.exclude === undefined ? DEFAULT_EXCLUDE : [options.exclude].flat();
+  const locations = new Set<string>();
+
+  for (const input of filePathsToSearch) {
+    const location = toLocation(input);
+    // Remote documents cannot be listed
+    const isPattern = !isUrl(input) && isDynamicPattern(input);
+    if (!isPattern && (isUrl(location) || !(await isDirectory(location)))) {
+      locations.add(location);
+      continue;
+    }
+    // Patterns are matched from their fixed leading directories, like directories are
+    const segments = input.split("/");
+    const fixed = isPattern ? segments.findIndex((segment) => isDynamicPattern(segment)) : 0;
+    const files = await glob(isPattern ? segments.slice(fixed).join("/") : include, {
+      cwd: isPattern ? resolve(segments.slice(0, fixed).join("/") || ".") : location,
+      ignore: exclude,
+      absolute: true,
+      onlyFiles: true,
+    });
+    for (const file of files.map((file) => resolve(file)).sort()) {
+      locations.add(file);
+    }
+  }
+
+  return [...locations];
+};
+
+/**
+ * Lists the files that the external $refs written in a file point at.
+ *
+ * @example
+ * // For /project/api.yaml containing:
+ * // paths:
+ * //   /users:
+ * //     $ref: "./paths/users.yaml"
+ * getExternalRefLocations(file)
+ * // Returns: Set { '/project/paths/users.yaml' }
+ */
+const getExternalRefLocations = (file: IParsedFile): Set<string> => {
+  const locations = new Set<string>();
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value !== null && typeof value === "object") {
+      const { $ref } = value as Record<string, unknown>;
+      if (typeof $ref === "string" && !$ref.startsWith("#")) {
+        locations.add(getRefFilePath($ref, file.filePath));
+      }
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(file.content);
+  return locations;
+};
+
+/**
+ * Leaves out root files reached through external $refs from another root
+ * file, which searches them as part of its own walk. Of roots that reach each
+ * other, the first is kept. Files that cannot be loaded are kept, so that the
+ * search reports them.
+ *
+ * @param roots - Absolute paths or URLs of the root files, without duplicates
+ * @param fileCache - Cache of loaded files, shared with the search
+ * @param parse - Reads and parses files that are not cached yet
+ * @returns The roots to search, in their original order
+ *
+ * @example
+ * // /project/api.yaml has `$ref: "./schemas/user.yaml"`
+ * await removeRefTargets(['/project/api.yaml', '/project/schemas/user.yaml'], cache, parse)
+ * // Returns: ['/project/api.yaml']
+ */
+const removeRefTargets = async (
+  roots: string[],
+  fileCache: Map<string, Promise<IParsedFile>>,
+  parse: FileParser,
+): Promise<string[]> => {
+  const references = new Map<string, Set<string>>();
+  const getReferences = async (location: string) => {
+    if (!references.has(location)) {
+      try {
+        references.set(location, getExternalRefLocations(await loadFile(location, fileCache, parse)));
+      } catch {
+        references.set(location, new Set());
+      }
+    }
+    return references.get(location) as Set<string>;
+  };
+
+  const reachable = new Map<string, Set<string>>();
+  for (const root of roots) {
+    const reached = new Set<string>();
+    const pending = [...(await getReferences(root))];
+    for (let location; (location = pending.pop()) !== undefined; ) {
+      if (!reached.has(location)) {
+        reached.add(location);
+        pending.push(...(await getReferences(location)));
+      }
+    }
+    reachable.set(root, reached);
+  }
+
+  // A root is left out when another root reaches it, unless they reach each
+  // other and the root comes first
+  return roots.filter((root, index) =>
+    !roots.some(
+      (other, otherIndex) =>
+        other !== root &&
+        reachable.get(other)?.has(root) &&
+        (!reachable.get(root)?.has(other) || otherIndex < index),
+    ),
+  );
+};
+
+/**
+ * Returns the root files of a search: `filePathsToSearch` expanded (see
+ * {@link expandFilePaths}), without $ref targets of other roots when
+ * `skipRefTargets` is set.
+ */
+const getRootFiles = async (
+  filePathsToSearch: string[],
+  options: IFindOptions,
+  fileCache: Map<string, Promise<IParsedFile>>,
+  parse: FileParser,
+): Promise<string[]> => {
+  const roots = await expandFilePaths(filePathsToSearch, options);
+  return options.skipRefTargets ? removeRefTargets(roots, fileCache, parse) : roots;
+};
+
+/**
+ * Options for `searchFiles`: the public options plus how files are read.
+ * The public functions forward them unchanged, which lets a finder pass
+ * its own parser through them.
+ */
+interface ISearchOptions extends IFindOptions {
+  /** Reads and parses files; defaults to {@link parseFile} with the search's loaders */
+  parse?: FileParser;
+  /**
+   * Invoked (and awaited) for each object in scope, delivered like matches.
+   * Pair objects with their matches by {@link getNodeKey}.
+   */
+  onObject?: (object: INode) => void | Promise<void>;
+}
+
+/**
+ * Returns the key pairing an object reported to `onObject` with the matches
+ * found on it. They are paired by path rather than by where they are
+ * written: a property next to a $ref (OpenAPI 3.1) is matched on the object
+ * holding the $ref, which is only reported at its target, and with
+ * `schemaPaths` the entries of an `allOf` share the path of their schema,
+ * which then has the properties of every entry.
+ *
+ * @param rootFile - The root file the object was reached from
+ * @param segments - Path segments of the object
+ *
+ * @example
+ * getNodeKey('/project/api.yaml', ['paths', '/users', 'get'])
+ * // Returns: '["/project/api.yaml","paths","/users","get"]'
+ */
+const getNodeKey = (rootFile: string, segments: string[]): string =>
+  JSON.stringify([rootFile, ...segments]);
+
+/**
+ * Parses each root file and walks it, reporting every match to `onMatch`.
+ * Files reached through external $refs are shared between roots via a cache,
+ * and up to `options.concurrency` roots are searched at the same time.
+ *
+ * @param propertyToFind - The property key(s) to search for (see {@link PropertyMatcher})
+ * @param filePathsToSearch - File paths, directories, glob patterns and URLs to search
+ * @param options - Optional search behavior
+ * @param onMatch - Invoked (and awaited) for each match, in document order per root file
+ * @param fileCache - Cache of loaded files, which callers may pass to reuse the parsed files afterwards
+ * @returns The root files that were searched
+ * @throws Error if `options.concurrency` is not a positive integer
+ */
+const searchFiles = async (
+  propertyToFind: PropertyMatcher,
+  filePathsToSearch: string[],
+  options: ISearchOptions,
+  onMatch: (match: IMatch<unknown>) => void | Promise<void>,
+  fileCache = new Map<string, Promise<IParsedFile>>(),
+): Promise<string[]> => {
+  const concurrency = options.concurrency ?? 1;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid concurrency ${concurrency}, expected a positive integer`);
+  }
+
+  const loaders = getLoaders(options);
+  const parse = options.parse ?? ((location: string) => parseFile(location, loaders));
+  const onError = options.onError ?? "throw";
+  const roots = await getRootFiles(filePathsToSearch, options, fileCache, parse);
+  const resources = new Map<string, ISchemaResource>();
+  const matchesKey = createKeyMatcher(propertyToFind, options.pathFormat);
+  const matchScope = createScopeMatcher(options.scope);
+  const delivery: IOrderedDelivery = options.ordered
+    ? createOrderedDelivery(roots.length)
+    : { deliver: async (_index, callback) => callback(), finish: async () => {} };
+  let failure: { error: unknown } | undefined;
+
+  const searchRoot = async (index: number): Promise<void> => {
+    const deliver = async (callback: () => void | Promise<void>) => {
+      // Stop walking as soon as another root has failed
+      if (failure) {
+        throw failure.error;
+      }
+      await delivery.deliver(index, callback);
+    };
+    const onDiagnostic = options.onDiagnostic
+      ? (diagnostic: IDiagnostic) => deliver(() => options.onDiagnostic?.(diagnostic))
+      : undefined;
+    const absolutePath = roots[index];
+
+    let file: IParsedFile;
+    try {
+      file = await loadFile(absolutePath, fileCache, parse);
+    } catch (error) {
+      await reportProblem(
+        onError,
+        onDiagnostic,
+        {
+          kind: getLoadErrorKind(error),
+          message: (error as Error).message,
+          file: absolutePath,
+        },
+        error,
+      );
+      return;
+    }
+
+    const specVersion = getSpecVersion(file.content);
+    if (specVersion === "3.1") {
+      indexSchemaResources(file, resources);
+    }
+
+    const inherited = { baseUri: absolutePath, dynamicScope: [absolutePath], via: [] };
+    await walkObject(file.content, file, [], [], {}, inherited, {
+      rootFile: absolutePath,
+      matchesKey,
+      matchScope,
+      visited: new Set(),
+      fileCache,
+      parse,
+      dedupeTargets: options.dedupeTargets ?? false,
+      specVersion,
+      normalizePaths: specVersion === "2.0" && (options.normalizePaths ?? false),
+      schemaPaths: options.schemaPaths ?? false,
+      pathFormat: options.pathFormat ?? "dot",
+      resources,
+      onMatch: (match) => deliver(() => onMatch(match)),
+      onObject: options.onObject && ((object) => deliver(() => options.onObject?.(object))),
+      onError,
+      onDiagnostic,
+    });
+  };
+
+  let nextIndex = 0;
+  const worker = async (): Promise<void> => {
+    while (!failure && nextIndex < roots.length) {
+      const index = nextIndex++;
+      try {
+        await searchRoot(index);
+        await delivery.finish(index);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, roots.length) }, worker),
+  );
+  if (failure) {
+    throw failure.error;
+  }
+  return roots;
+};
+
+/**
+ * Searches for all occurrences of a property in YAML/JSON files, following $ref references.
+ *
+ * @param propertyToFind - The property key(s) to search for (see {@link PropertyMatcher})
+ * @param filePathsToSearch - File paths, directories, glob patterns or URLs to search
+ * @param options - Optional search behavior (see {@link IFindOptions})
+ * @returns A record where keys are paths (dot notation unless `pathFormat` is set) and values are the property values.
+ * When several files have a match at the same path, the last one wins; use `findByFile`
+ * or `findMatches` to keep them all.
+ *
+ * @example
+ * import { find } from './extract'
+ *
+ * // For a YAML file containing:
+ * // paths:
+ * //   /foo:
+ * //     x-bar:
+ * //       message: "Baz"
+ *
+ * const results = await find('x-bar, ['path/to/foo.yaml'])
+ * // Returns:
+ * // {
+ * //   'paths./foo.x-bar': {
+ * //     message: "Baz",
+ * //   }
+ * // }
+ */
+export const find = async <T>(
+  propertyToFind: PropertyMatcher,
+  filePathsToSearch: string[],
+  options: IFindOptions = {},
+): Promise<ISearchResult<T>> => {
+  const results: Record<string, unknown> = {};
+
+  await searchFiles(propertyToFind, filePathsToSearch, { ...options, ordered: true }, (match) => {
+    results[match.path] = match.value;
+  });
+
+  return results as ISearchResult<T>;
+};
+
+/**
+ * Searches for all occurrences of a property in YAML/JSON files, following $ref references,
+ * and groups the results by searched file. Unlike `find`, identical paths in different
+ * files do not overwrite each other.
+ *
+ * @param propertyToFind - The property key(s) to search for (see {@link PropertyMatcher})
+ * @param filePathsToSearch - File paths, directories, glob patterns or URLs to search
+ * @param options - Optional search behavior (see {@link IFindOptions})
+ * @returns A record keyed by absolute file path, with an entry for every searched file,
+ * whose values are records of paths to property values
+ *
+ * @example
+ * import { findByFile } from './extract'
+ *
+ * const results = await findByFile('x-foo', ['/specs/api-v1.yaml', '/specs/api-v2.yaml'])
+ * // Returns:
+ * // {
+ * //   '/specs/api-v1.yaml': { 'paths./users.get.x-foo': 'v1' },
+ * //   '/specs/api-v2.yaml': { 'paths./users.get.x-foo': 'v2' }
+ * // }
+ */
+export const findByFile = async <T>(
+  propertyToFind: PropertyMatcher,
+  filePathsToSearch: string[],
+  options: IFindOptions = {},
+): Promise<Record<string, ISearchResult<T>>> => {
+  const results: Record<string, Record<string, unknown>> = {};
+
+  const roots = await searchFiles(propertyToFind, filePathsToSearch, { ...options, ordered: true }, (match) => {
+    (results[match.rootFile] ??= {})[match.path] = match.value;
+  });
+
+  // Every searched file gets an entry, in the order files were searched
+  return Object.fromEntries(
+    roots.map((root) => [root, results[root] ?? {}]),
+  ) as Record<string, ISearchResult<T>>;
+};
+
+/**
+ * Searches for all occurrences of a property in YAML/JSON files, following $ref references,
+ * and returns a record for each match including its source location.
+ *
+ * @param propertyToFind - The property key(s) to search for (see {@link PropertyMatcher})
+ * @param filePathsToSearch - File paths, directories, glob patterns or URLs to search
+ * @param options - Optional search behavior (see {@link IFindOptions})
+ * @returns The matches in document order
+ *
+ * @example
+ * import { findMatches } from './extract'
+ *
+ * // For /project/foo.yaml containing:
+ * // paths:
+ * //   /foo:
+ * //     x-bar:
+ * //       message: "Baz"
+ *
+ * const matches = await findMatches('x-bar', ['/project/foo.yaml'])
+ * // Returns:
+ * // [{
+ * //   path: 'paths./foo.x-bar',
+ * //   rootFile: '/project/foo.yaml',
+ * //   key: 'x-bar',
+ * //   value: { message: "Baz" },
+ * //   parent: { 'x-bar': { message: "Baz" } },
+ * //   location: { file: '/project/foo.yaml', line: 3, column: 5, jsonPointer: '/paths/~1foo/x-bar' }
+ * // }]
+ */
+export const findMatches = async <T>(
+  propertyToFind: PropertyMatcher,
+  filePathsToSearch: string[],
+  options: IFindOptions = {},
+): Promise<IMatch<T>[]> => {
+  const matches: IMatch<T>[] = [];
+
+  await searchFiles(propertyToFind, filePathsToSearch, { ...options, ordered: true }, (match) => {
+    matches.push(match as IMatch<T>);
+  });
+
+  return matches;
+};
+
+/**
+ * Searches for all occurrences of a property in YAML/JSON files, following $ref references,
+ * and invokes a callback for each match.
+ *
+ * @param propertyToFind - The property key(s) to search for (see {@link PropertyMatcher})
+ * @param filePathsToSearch - File paths, directories, glob patterns or URLs to search
+ * @param callback - Async callback invoked for each match with (path, content, parent, match)
+ * @param options - Optional search behavior (see {@link IFindOptions})
+ *
+ * @example
+ * import { findWithCallback } from './extract'
+ *
+ * // For a YAML file containing:
+ * // paths:
+ * //   /foo:
+ * //     x-bar:
+ * //       message: "Baz"
+ *
+ * await findWithCallback('x-bar', ['path/to/foo.yaml'], (path, content, parent, match) => {
+ *   console.log(path);           // 'paths./foo.x-bar'
+ *   console.log(content);        // { message: "Baz" }
+ *   console.log(parent);         // { 'x-bar': { message: "Baz" } }
+ *   console.log(match.location); // { file: '/abs/path/to/foo.yaml', line: 3, column: 5, ... }
+ * });
+ */
+export const findWithCallback = async <T>(
+  propertyToFind: PropertyMatcher,
+  filePathsToSearch: string[],
+  callback: FindCallback<T>,
+  options: IFindOptions = {},
+): Promise<void> => {
+  await searchFiles(propertyToFind, filePathsToSearch, options, (match) =>
+    callback(match.path, match.value as T, match.parent, match as IMatch<T>),
+  );
+};
+
+/**
+ * Searches for all occurrences of a property in YAML/JSON files, following $ref references,
+ * and returns the matches together with any problems met along the way. Unlike the other
+ * search functions, problems are collected by default instead of rejecting the search.
+ *
+ * @param propertyToFind - The property key(s) to search for (see {@link PropertyMatcher})
+ * @param filePathsToSearch - File paths, directories, glob patterns or URLs to search
+ * @param options - Optional search behavior (see {@link IFindOptions})
+ * @returns The matches in document order and the diagnostics
+ *
+ * @example
+ * import { search } from './extract'
+ *
+ * // For a YAML file containing:
+ * // paths:
+ * //   /foo:
+ * //     $ref: "./missing.yaml"
+ * //   /bar:
+ * //     x-bar: 1
+ *
+ * const { matches, diagnostics } = await search('x-bar', ['path/to/foo.yaml'])
+ * // matches: [{ path: 'paths./bar.x-bar', value: 1, ... }]
+ * // diagnostics: [{
+ * //   kind: 'unreadable-file',
+ * //   message: "ENOENT: no such file or directory, open '/abs/path/to/missing.yaml'",
+ * //   file: '/abs/path/to/missing.yaml',
+ * //   ref: './missing.yaml',
+ * //   path: 'paths./foo',
+ * //   location: { file: '/abs/path/to/foo.yaml', line: 3, column: 5, jsonPointer: '/paths/~1foo/$ref' }
+ * // }]
+ */
+export const search = async <T>(
+  propertyToFind: PropertyMatcher,
+  filePathsToSearch: string[],
+  options: IFindOptions = {},
+): Promise<ISearchReport<T>> => {
+  const matches: IMatch<T>[] = [];
+  const diagnostics: IDiagnostic[] = [];
+
+  await searchFiles(
+    propertyToFind,
+    filePathsToSearch,
+    {
+      ...options,
+      ordered: true,
+      onError: options.onError ?? "collect",
+      onDiagnostic: async (diagnostic) => {
+        diagnostics.push(diagnostic);
+        await options.onDiagnostic?.(diagnostic);
+      },
+    },
+    (match) => {
+      matches.push(match as IMatch<T>);
+    },
+  );
+
+  return { matches, diagnostics };
+};
+
+/**
+ * Searches for all occurrences of a property in YAML/JSON files, following $ref references,
+ * and yields each match as it is found. The walk is driven by the consumer: it pauses after
+ * each match until the next one is requested, and stops (without reading further files)
+ * when iteration ends early via `break`, `return` or a thrown error. Overlapping `next()`
+ * calls are answered in order.
+ *
+ * @param propertyToFind - The property key(s) to search for (see {@link PropertyMatcher})
+ * @param filePathsToSearch - File paths, directories, glob patterns or URLs to search
+ * @param options - Optional search behavior (see {@link IFindOptions})
+ * @returns An async iterator of matches in document order
+ *
+ * @example
+ * import { findIter } from './extract'
+ *
+ * for await (const match of findIter('x-internal', ['path/to/foo.yaml'])) {
+ *   console.log(match.path);
+ *   if (match.value === true) {
+ *     break; // stops the walk
+ *   }
+ * }
+ */
+export const findIter = <T>(
+  propertyToFind: PropertyMatcher,
+  filePathsToSearch: string[],
+  options: IFindOptions = {},
+): AsyncIterableIterator<IMatch<T>> => {
+  const cancelled = new Error("findIter iteration was cancelled");
+  let walk: Promise<void> | undefined;
+  let done = false;
+  let consumer:
+    | {
+        resolve: (result: IteratorResult<IMatch<T>>) => void;
+        reject: (error: unknown) => void;
+      }
+    | undefined;
+  let paused: { resume: () => void; cancel: (error: unknown) => void } | undefined;
+  // Settles once the latest next() has, so each call waits for the one before it
+  let previous: Promise<unknown> = Promise.resolve();
+
+  const settle = (error?: unknown) => {
+    done = true;
+    const waiting = consumer;
+    consumer = undefined;
+    if (error === undefined || error === cancelled) {
+      waiting?.resolve({ value: undefined, done: true });
+    } else {
+      waiting?.reject(error);
+    }
+  };
+
+  const onMatch = (match: IMatch<unknown>) =>
+    new Promise<void>((resume, cancel) => {
+      paused = { resume, cancel };
+      const waiting = consumer;
+      consumer = undefined;
+      waiting?.resolve({ value: match as IMatch<T>, done: false });
+    });
+
+  const pull = (): Promise<IteratorResult<IMatch<T>>> => {
+    if (done) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise<IteratorResult<IMatch<T>>>((resolve, reject) => {
+      consumer = { resolve, reject };
+      if (walk === undefined) {
+        // Matches are handed over one at a time, so they must arrive in order
+        walk = searchFiles(
+          propertyToFind,
+          filePathsToSearch,
+          { ...options, ordered: true },
+          onMatch,
+        ).then(
+          () => settle(),
+          settle,
+        );
+      } else {
+        const current = paused;
+        paused = undefined;
+        current?.resume();
+      }
+    });
+  };
+
+  return {
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+
+    next: () => {
+      const result = previous.then(pull);
+      previous = result.catch(() => undefined);
+      return result;
+    },
+
+    return: async () => {
+      if (!done) {
+        done = true;
+        const current = paused;
+        paused = undefined;
+        current?.cancel(cancelled);
+        await walk;
+      }
+      return { value: undefined, done: true };
+    },
+  };
+};
+
+/**
+ * Kinds of OpenAPI nodes that {@link findMissing} can list:
+ * - `pathItem`: entries of `paths`, `webhooks`, `components.pathItems` and callbacks
+ * - `operation`: the HTTP method entries of a path item
+ * - `parameter`: entries of the `parameters` of a path item or operation, and of
+ *   `components.parameters` (`parameters` in Swagger 2.0)
+ * - `response`: entries of the `responses` of an operation, and of
+ *   `components.responses` (`responses` in Swagger 2.0)
+ * - `schema`: named schemas in `components.schemas` (`definitions` in Swagger 2.0)
+ */
+export type NodeKind = "operation" | "pathItem" | "schema" | "parameter" | "response";
+
+/** Every {@link NodeKind}, in the order they are listed in messages */
+export const NODE_KINDS: readonly NodeKind[] = ["operation", "pathItem", "schema", "parameter", "response"];
+
+/**
+ * Options for {@link findMissing}.
+ */
+export interface IFindMissingOptions extends IFindOptions {
+  /** The kind of node that should have the property */
+  at: NodeKind;
+}
+
+/**
+ * Returns true if a logical path is a path item: an entry of `paths`,
+ * `webhooks` or `components.pathItems`, or a callback expression.
+ */
+const isPathItemPath = (path: string[]): boolean => {
+  const depth = path.length;
+  return (
+    (depth === 2 && (path[0] === "paths" || path[0] === "webhooks")) ||
+    (depth === 3 && path[0] === "components" && path[1] === "pathItems") ||
+    (depth === 4 && path[0] === "components" && path[1] === "callbacks") ||
+    (depth > 3 && path[depth - 3] === "callbacks" && isOperationPath(path.slice(0, -3)))
+  );
+};
+
+/**
+ * Returns true if a logical path is an operation: an HTTP method entry of a path item.
+ */
+const isOperationPath = (path: string[]): boolean =>
+  path.length > 0 && HTTP_METHODS.has(path[path.length - 1]) && isPathItemPath(path.slice(0, -1));
+
+/**
+ * Tells which kind of OpenAPI node sits at a logical path, if any (see {@link NodeKind}).
+ * A parameter reached through a $ref to `components.parameters` has the
+ * component name as an extra path segment, so it is recognized by having a
+ * `name` and `in` as well.
+ *
+ * @param path - Logical path segments of the node
+ * @param value - The node itself
+ * @returns The kind of node, or undefined for any other object
+ *
+ * @example
+ * getNodeKind(['paths', '/users', 'get', 'responses', '200'], { description: 'OK' })
+ * // Returns: 'response'
+ *
+ * @example
+ * getNodeKind(['paths', '/users', 'get', 'parameters', '0', 'Limit'], { name: 'limit', in: 'query' })
+ * // Returns: 'parameter'
+ *
+ * @example
+ * getNodeKind(['components', 'schemas', 'User', 'properties', 'id'], { type: 'string' })
+ * // Returns: undefined
+ */
+const getNodeKind = (path: string[], value: Record<string, unknown>): NodeKind | undefined => {
+  const depth = path.length;
+  const isComponent = (section: string) =>
+    depth === 3 && path[0] === "components" && path[1] === section;
+  // Parameters and responses are entries of a list (or map) held by their owner
+  const owner = path.slice(0, -2);
+  const listedIn = (key: string) => path[depth - 2] === key;
+
+  if (isOperationPath(path)) {
+    return "operation";
+  }
+  if (isPathItemPath(path)) {
+    return "pathItem";
+  }
+  if (isComponent("schemas") || (depth === 2 && path[0] === "definitions")) {
+    return "schema";
+  }
+  if (
+    isComponent("parameters") ||
+    (depth === 2 && path[0] === "parameters") ||
+    (listedIn("parameters") && (isOperationPath(owner) || isPathItemPath(owner))) ||
+    (typeof value.name === "string" &&
+      typeof value.in === "string" &&
+      path[depth - 3] === "parameters" &&
+      /^\d+$/.test(path[depth - 2]) &&
+      getNodeKind(path.slice(0, -1), value) === "parameter")
+  ) {
+    return "parameter";
+  }
+  if (
+    isComponent("responses") ||
+    (depth === 2 && path[0] === "responses") ||
+    (listedIn("responses") && isOperationPath(owner))
+  ) {
+    return "response";
+  }
+  return undefined;
+};
+
+/**
+ * Lists the OpenAPI nodes of one kind that do not have a property, written
+ * directly or anywhere along their $ref chain. This is the complement of
+ * `findMatches`, which cannot tell which nodes exist without the property.
+ * Nodes are listed at every path that reaches them, like matches.
+ *
+ * @param propertyToFind - The property key(s) each node should have (see {@link PropertyMatcher})
+ * @param filePathsToSearch - File paths, directories, glob patterns or URLs to search
+ * @param options - The kind of node (`at`), and optional search behavior (see {@link IFindOptions})
+ * @returns The nodes without the property, in document order
+ * @throws Error if `at` is not a known node kind
+ *
+ * @example
+ * import { findMissing } from './extract'
+ *
+ * // For a YAML file containing:
+ * // paths:
+ * //   /users:
+ * //     get:
+ * //       x-owner: identity
+ * //     post:
+ * //       $ref: "./operations.yaml#/CreateUser"
+ *
+ * const nodes = await findMissing('x-owner', ['path/to/api.yaml'], { at: 'operation' })
+ * // Returns:
+ * // [{
+ * //   path: 'paths./users.post',
+ * //   value: { operationId: 'createUser' },
+ * //   location: { file: '/abs/path/to/operations.yaml', line: 1, column: 1, jsonPointer: '/CreateUser' },
+ * //   via: [{ ref: './operations.yaml#/CreateUser', ... }],
+ * //   ...
+ * // }]
+ */
+export const findMissing = async (
+  propertyToFind: PropertyMatcher,
+  filePathsToSearch: string[],
+  options: IFindMissingOptions,
+): Promise<INode[]> => {
+  const { at, ...searchOptions } = options;
+  if (!NODE_KINDS.includes(at)) {
+    throw new Error(`Unknown node kind "${String(at)}", expected one of: ${NODE_KINDS.join(", ")}`);
+  }
+
+  const nodes = new Map<string, INode>();
+  const found = new Set<string>();
+
+  await searchFiles(
+    propertyToFind,
+    filePathsToSearch,
+    {
+      ...searchOptions,
+      ordered: true,
+      onObject: (node) => {
+        const key = getNodeKey(node.rootFile, node.segments);
+        if (!nodes.has(key) && getNodeKind(node.segments, node.value) === at) {
+          nodes.set(key, node);
+        }
+      },
+    },
+    (match) => {
+      found.add(getNodeKey(match.rootFile, match.segments.slice(0, -1)));
+    },
+  );
+
+  return [...nodes].filter(([key]) => !found.has(key)).map(([, node]) => node);
+};
+
+/**
+ * Where an inherited value can be set, for {@link findEffectiveValues}: on a
+ * node of a {@link NodeKind} (the node itself or its nearest enclosing node of
+ * that kind), at the root of the document (`document`), or on the `allOf`
+ * entries of a schema (`allOf`).
+ */
+export type InheritanceLevel = NodeKind | "document" | "allOf";
+
+/** Every {@link InheritanceLevel}, in the order they are listed in messages */
+export const INHERITANCE_LEVELS: readonly InheritanceLevel[] = [...NODE_KINDS, "document", "allOf"];
+
+/** Levels consulted for each kind of node when no `precedence` is given, nearest first */
+const DEFAULT_PRECEDENCE: Record<NodeKind, InheritanceLevel[]> = {
+  operation: ["operation", "pathItem", "document"],
+  pathItem: ["pathItem", "document"],
+  parameter: ["parameter", "operation", "pathItem", "document"],
+  response: ["response", "operation", "pathItem", "document"],
+  schema: ["schema", "allOf"],
+};
+
+/**
+ * Options for {@link findEffectiveValues}. There is no `scope`, since values
+ * are inherited from outside the nodes.
+ */
+export interface IEffectiveValueOptions extends Omit<IFindOptions, "scope"> {
+  /** The kind of node to report a value for */
+  at: NodeKind;
+  /**
+   * Levels to take the value from, in order; the first level with the
+   * property wins. Defaults to the node itself and then its enclosing nodes
+   * and the document (operation, path item, document for an operation), or
+   * for a schema to the schema and then its `allOf` entries.
+   */
+  precedence?: InheritanceLevel[];
+}
+
+/**
+ * The value of a property that applies to a node, reported by {@link findEffectiveValues}.
+ */
+export interface IEffectiveValue<T> {
+  /** The node the value applies to */
+  node: INode;
+  /** The value, or undefined when no level has the property */
+  value: T | undefined;
+  /** The level the value comes from; absent when no level has the property */
+  source?: InheritanceLevel;
+  /** The property supplying the value, with its path and location; absent when no level has the property */
+  match?: IMatch<T>;
+}
+
+/**
+ * Reports, for every OpenAPI node of one kind, the value of a property that
+ * applies to it: set on the node itself or inherited from where the
+ * precedence says, such as the enclosing path item, the document root, or
+ * the `allOf` entries of a schema. A level names the nearest node of that
+ * kind, so an operation in a callback takes the callback's path item. The
+ * `allOf` level looks at each entry in order, and into nested `allOf`
+ * entries before moving to the next one. $refs are followed at every level.
+ *
+ * @param propertyToFind - The property key(s) to look up (see {@link PropertyMatcher})
+ * @param filePathsToSearch - File paths, directories, glob patterns or URLs to search
+ * @param options - The kind of node (`at`), the `precedence`, and optional search behavior
+ * @returns One entry per node, in document order, including nodes without a value
+ * @throws Error if `at` is not a known node kind or `precedence` names an unknown level
+ *
+ * @example
+ * import { findEffectiveValues } from './extract'
+ *
+ * // For a YAML file containing:
+ * // x-auth-scope: read
+ * // paths:
+ * //   /users:
+ * //     x-auth-scope: users
+ * //     get: {}
+ * //     delete:
+ * //       x-auth-scope: admin
+ *
+ * const values = await findEffectiveValues('x-auth-scope', ['path/to/api.yaml'], { at: 'operation' })
+ * // Returns:
+ * // [
+ * //   { node: { path: 'paths./users.get', ... }, value: 'users', source: 'pathItem', match: { path: 'paths./users.x-auth-scope', ... } },
+ * //   { node: { path: 'paths./users.delete', ... }, value: 'admin', source: 'operation', match: { ... } }
+ * // ]
+ *
+ * @example
+ * // Let the document override operations
+ * await findEffectiveValues('x-auth-scope', ['path/to/api.yaml'], {
+ *   at: 'operation',
+ *   precedence: ['document', 'operation'],
+ * })
+ */
+export const findEffectiveValues = async <T>(
+  propertyToFind: PropertyMatcher,
+  filePathsToSearch: string[],
+  options: IEffectiveValueOptions,
+): Promise<IEffectiveValue<T>[]> => {
+  const { at, precedence: givenPrecedence, ...searchOptions } = options;
+  if (!NODE_KINDS.includes(at)) {
+    throw new Error(`Unknown node kind "${String(at)}", expected one of: ${NODE_KINDS.join(", ")}`);
+  }
+  const precedence = givenPrecedence ?? DEFAULT_PRECEDENCE[at];
+  for (const level of precedence) {
+    if (!INHERITANCE_LEVELS.includes(level)) {
+      throw new Error(
+        `Unknown inheritance level "${String(level)}", expected one of: ${INHERITANCE_LEVELS.join(", ")}`,
+      );
+    }
+  }
+
+  const nodes: INode[] = [];
+  const objects = new Map<string, INode>();
+  // The first match in each object, by the path of the object
+  const matches = new Map<string, IMatch<T>>();
+
+  await searchFiles(
+    propertyToFind,
+    filePathsToSearch,
+    {
+      ...searchOptions,
+      scope: undefined,
+      ordered: true,
+      onObject: (node) => {
+        const key = getNodeKey(node.rootFile, node.segments);
+        if (objects.has(key)) {
+          return;
+        }
+        objects.set(key, node);
+        if (getNodeKind(node.segments, node.value) === at) {
+          nodes.push(node);
+        }
+      },
+    },
+    (match) => {
+      const key = getNodeKey(match.rootFile, match.segments.slice(0, -1));
+      if (!matches.has(key)) {
+        matches.set(key, match as IMatch<T>);
+      }
+    },
+  );
+
+  const findInAllOf = (rootFile: string, segments: string[]): IMatch<T> | undefined => {
+    const allOf = objects.get(getNodeKey(rootFile, segments))?.value.allOf;
+    if (!Array.isArray(allOf)) {
+      return undefined;
+    }
+    for (let index = 0; index < allOf.length; index++) {
+      const entry = [...segments, "allOf", String(index)];
+      const match = matches.get(getNodeKey(rootFile, entry)) ?? findInAllOf(rootFile, entry);
+      if (match) {
+        return match;
+      }
+    }
+    return undefined;
+  };
+
+  const lookUp = (node: INode, level: InheritanceLevel): IMatch<T> | undefined => {
+    if (level === "document") {
+      return matches.get(getNodeKey(node.rootFile, []));
+    }
+    if (level === "allOf") {
+      return findInAllOf(node.rootFile, node.segments);
+    }
+    // Only the nearest node of the level counts, whether or not it has the property
+    for (let depth = node.segments.length; depth >= 0; depth--) {
+      const segments = node.segments.slice(0, depth);
+      const enclosing = objects.get(getNodeKey(node.rootFile, segments));
+      if (enclosing && getNodeKind(segments, enclosing.value) === level) {
+        return matches.get(getNodeKey(node.rootFile, segments));
+      }
+    }
+    return undefined;
+  };
+
+  return nodes.map((node) => {
+    for (const level of precedence) {
+      const match = lookUp(node, level);
+      if (match) {
+        return { node, value: match.value, source: level, match };
+      }
+    }
+    return { node, value: undefined };
+  });
+};
+
+/**
+ * A found value that does not satisfy the schema given to {@link validate}.
+ * A value with several problems has one violation for each.
+ */
+export interface IViolation {
+  /** Path of the match (see {@link IFindOptions.pathFormat}) */
+  path: string;
+  /** JSON Pointer of the invalid part within the value; empty for the value itself */
+  valuePointer: string;
+  /** Schema keyword that failed, such as `type` or `required` */
+  keyword: string;
+  /** Description of the problem, such as `must be integer` */
+  message: string;
+  /** Where the invalid part of the value is written */
+  location: ISourceLocation;
+  /** The match whose value is invalid */
+  match: IMatch<unknown>;
+}
+
+/**
+ * Compiles a JSON Schema, picking the validator for the draft named by its
+ * `$schema` (2020-12, 2019-09, or draft-07 and older by default). Unknown
+ * keywords are allowed, since schemas often carry annotations such as `x-`
+ * extensions.
+ *
+ * @throws Error if the schema is invalid
+ */
+const compileSchema = (schema: AnySchema) => {
+  const draft = typeof schema === "object" ? String(schema.$schema ?? "") : "";
+  const options = { allErrors: true, strict: false };
+  const ajv = draft.includes("2020-12")
+    ? new Ajv2020(options)
+    : draft.includes("2019-09")
+      ? new Ajv2019(options)
+      : new Ajv(options);
+  return ajv.compile(schema);
+};
+
+/**
+ * Finds every occurrence of a property, like `findMatches`, and checks each
+ * value against a JSON Schema. The schema's `$schema` picks the draft;
+ * draft-07 is used when it names none.
+ *
+ * @param propertyToFind - The property key(s) to search for (see {@link PropertyMatcher})
+ * @param filePathsToSearch - File paths, directories, glob patterns or URLs to search
+ * @param schema - JSON Schema every found value must satisfy
+ * @param options - Optional search behavior (see {@link IFindOptions})
+ * @returns The violations, in document order; empty when every value is valid
+ * @throws Error if the schema is invalid
+ *
+ * @example
+ * import { validate } from './extract'
+ *
+ * // For /project/api.yaml containing:
+ * // paths:
+ * //   /users:
+ * //     x-rate-limit:
+ * //       requests: many
+ *
+ * const violations = await validate('x-rate-limit', ['/project/api.yaml'], {
+ *   type: 'object',
+ *   required: ['requests', 'window'],
+ *   properties: { requests: { type: 'integer' }, window: { type: 'string' } },
+ * })
+ * // Returns:
+ * // [{
+ * //   path: 'paths./users.x-rate-limit',
+ * //   valuePointer: '',
+ * //   keyword: 'required',
+ * //   message: "must have required property 'window'",
+ * //   location: { file: '/project/api.yaml', line: 3, column: 5, jsonPointer: '/paths/~1users/x-rate-limit' },
+ * //   match: { ... }
+ * // }, {
+ * //   path: 'paths./users.x-rate-limit',
+ * //   valuePointer: '/requests',
+ * //   keyword: 'type',
+ * //   message: 'must be integer',
+ * //   location: { file: '/project/api.yaml', line: 4, column: 7, jsonPointer: '/paths/~1users/x-rate-limit/requests' },
+ * //   match: { ... }
+ * // }]
+ */
+export const validate = async (
+  propertyToFind: PropertyMatcher,
+  filePathsToSearch: string[],
+  schema: AnySchema,
+  options: IFindOptions = {},
+): Promise<IViolation[]> => {
+  const check = compileSchema(schema);
+  const fileCache = new Map<string, Promise<IParsedFile>>();
+  const violations: IViolation[] = [];
+
+  await searchFiles(
+    propertyToFind,
+    filePathsToSearch,
+    { ...options, ordered: true },
+    async (match) => {
+      if (check(match.value)) {
+        return;
+      }
+      const file = await (fileCache.get(match.location.file) as Promise<IParsedFile>);
+      const pointer = parseJsonPointer(`#${match.location.jsonPointer}`);
+      for (const error of check.errors ?? []) {
+        const valuePointer = error.instancePath ? parseJsonPointer(`#${error.instancePath}`) : [];
+        violations.push({
+          path: match.path,
+          valuePointer: error.instancePath,
+          keyword: error.keyword,
+          message: error.message ?? error.keyword,
+          location: getSourceLocation(file, [...pointer, ...valuePointer]),
+          match,
+        });
+      }
+    },
+    fileCache,
+  );
+
+  return violations;
+};
+
+/**
+ * How serious breaking a rule is. Only errors fail the command line tool.
+ */
+export type RuleSeverity = "error" | "warning";
+
+/**
+ * A governance rule about one property, as written under `rules` in a
+ * `.fieldfinderrc.yaml`. Locations are scope patterns (see
+ * {@link IFindOptions.scope}) matched against the object holding the
+ * property, and `operations` stands for every operation under `paths` and
+ * `webhooks`. A rule may combine several checks.
+ *
+ * @example
+ * // .fieldfinderrc.yaml
+ * rules:
+ *   operation-owner:
+ *     property: x-owner
+ *     require: operations
+ *     values: [identity, billing]
+ *   no-internal-schemas:
+ *     property: x-internal
+ *     forbid: components.schemas.**
+ *     severity: warning
+ */
+export interface IRule {
+  /** The property the rule is about */
+  property: string;
+  /** How serious breaking the rule is (default: `error`) */
+  severity?: RuleSeverity;
+  /** Message reported instead of the default one */
+  message?: string;
+  /**
+   * Objects at these locations must have the property. Locations are scope
+   * patterns (see {@link IFindOptions.scope}), so a parameter reached through
+   * `$ref` is one segment deeper than an inline one.
+   */
+  require?: string | string[];
+  /** The property must not appear at these locations, or anywhere when `true` */
+  forbid?: true | string | string[];
+  /** The property may only appear at these locations */
+  allowedIn?: string | string[];
+  /** The values the property may have */
+  values?: unknown[];
+  /** JSON Schema every value of the property must satisfy (see {@link validate}) */
+  schema?: AnySchema;
+}
+
+/**
+ * Rules by name, as loaded by {@link loadRules}.
+ */
+export type IRuleSet = Record<string, IRule>;
+
+/**
+ * A place where a searched file breaks a rule, reported by {@link checkRules}.
+ */
+export interface IRuleViolation {
+  /** Name of the broken rule */
+  rule: string;
+  severity: RuleSeverity;
+  /** Description of the problem, such as `Missing x-owner` */
+  message: string;
+  /** Path of the property, or of the object missing it (see {@link IFindOptions.pathFormat}) */
+  path: string;
+  /** Absolute path of the searched file the property or object was reached from */
+  rootFile: string;
+  /** Where the property, or the object missing it, is written */
+  location: ISourceLocation;
+  /** The operation, parameter, response and component enclosing the property or object */
+  context: IMatchContext;
+}
+
+/**
+ * Violations and diagnostics of {@link checkRules}.
+ */
+export interface IRuleReport {
+  violations: IRuleViolation[];
+  diagnostics: IDiagnostic[];
+}
+
+/**
+ * Options for {@link checkRules}. There is no `scope`, since rules name their own locations.
+ */
+export type IRuleOptions = Omit<IFindOptions, "scope">;
+
+/** Name of the file {@link loadRules} looks for */
+const RULES_FILE_NAME = ".fieldfinderrc.yaml";
+
+/** Locations that the `operations` shorthand of a rule stands for */
+const OPERATION_LOCATIONS = [...HTTP_METHODS].flatMap((method) => [
+  `paths.*.${method}`,
+  `webhooks.*.${method}`,
+]);
+
+/**
+ * A rule ready to be checked while walking.
+ */
+interface ICompiledRule {
+  property: string;
+  /**
+   * Returns the violation to report if an object reached while walking turns
+   * out not to have the property, or undefined if the object may lack it
+   */
+  checkObject: (object: INode) => IRuleViolation | undefined;
+  /** Returns the violations of a match of the rule's property */
+  checkMatch: (match: IMatch<unknown>) => IRuleViolation[];
+}
+
+/**
+ * Checks a rule for mistakes and compiles its locations, values and schema.
+ *
+ * @param name - Name of the rule, used in messages
+ * @param rule - The rule as written in the configuration
+ * @returns The compiled rule
+ * @throws Error if the rule is malformed
+ *
+ * @example
+ * const rule = compileRule('operation-owner', { property: 'x-owner', require: 'operations' })
+ * rule.checkObject({ path: 'paths./users.get', segments: ['paths', '/users', 'get'], value: {}, ... })
+ * // Returns: { rule: 'operation-owner', severity: 'error', message: 'Missing x-owner', path: 'paths./users.get', ... }
+ */
+const compileRule = (name: string, rule: IRule): ICompiledRule => {
+  const fail = (problem: string): never => {
+    throw new Error(`Invalid rule "${name}": ${problem}`);
+  };
+  if (rule === null || typeof rule !== "object" || Array.isArray(rule)) {
+    fail("expected an object");
+  }
+  const { property, severity = "error", message, values } = rule;
+  if (typeof property !== "string" || property.length === 0) {
+    fail("property must be a non-empty string");
+  }
+  if (severity !== "error" && severity !== "warning") {
+    fail(`unknown severity "${String(severity)}", expected error or warning`);
+  }
+  if (message !== undefined && typeof message !== "string") {
+    fail("message must be a string");
+  }
+  if (values !== undefined && !Array.isArray(values)) {
+    fail("values must be a list");
+  }
+
+  const toLocations = (key: string, value: unknown): string[] => {
+    const locations = [value].flat();
+    if (locations.length === 0 || !locations.every((location) => typeof location === "string")) {
+      fail(`${key} must be a location or a list of locations`);
+    }
+    return (locations as string[]).flatMap((location) =>
+      location === "operations" ? OPERATION_LOCATIONS : [location],
+    );
+  };
+  const toMatcher = (key: string, value: unknown) => {
+    try {
+      return createScopeMatcher(toLocations(key, value));
+    } catch (error) {
+      return fail((error as Error).message);
+    }
+  };
+  const required = rule.require === undefined ? undefined : toMatcher("require", rule.require);
+  const forbidden =
+    rule.forbid === undefined
+      ? undefined
+      : createScopeMatcher(rule.forbid === true ? undefined : toLocations("forbid", rule.forbid));
+  const allowed = rule.allowedIn === undefined ? undefined : toMatcher("allowedIn", rule.allowedIn);
+  let check: ReturnType<typeof compileSchema> | undefined;
+  try {
+    check = rule.schema === undefined ? undefined : compileSchema(rule.schema);
+  } catch (error) {
+    fail((error as Error).message);
+  }
+  if (!required && !forbidden && !allowed && !values && !check) {
+    fail("expected at least one of require, forbid, allowedIn, values or schema");
+  }
+
+  const report = (
+    defaultMessage: string,
+    at: INode | IMatch<unknown>,
+  ): IRuleViolation => ({
+    rule: name,
+    severity,
+    message: message ?? defaultMessage,
+    path: at.path,
+    rootFile: at.rootFile,
+    location: at.location,
+    context: at.context,
+  });
+
+  return {
+    property,
+    checkObject: (object) =>
+      required?.(object.segments).inScope ? report(`Missing ${property}`, object) : undefined,
+    checkMatch: (match) => {
+      if (match.key !== property) {
+        return [];
+      }
+      const violations: IRuleViolation[] = [];
+      const parentSegments = match.segments.slice(0, -1);
+      if (forbidden?.(parentSegments).inScope) {
+        violations.push(report(`${property} is not allowed here`, match));
+      }
+      if (allowed && !allowed(parentSegments).inScope) {
+        violations.push(
+          report(`${property} is only allowed at ${[rule.allowedIn].flat().join(", ")}`, match),
+        );
+      }
+      if (values && !values.some((value) => isDeepStrictEqual(value, match.value))) {
+        violations.push(
+          report(
+            `${property} must be one of ${values.map((value) => JSON.stringify(value)).join(", ")}`,
+            match,
+          ),
+        );
+      }
+      if (check && !check(match.value)) {
+        for (const error of check.errors ?? []) {
+          violations.push(
+            report(`${property}${error.instancePath} ${error.message ?? error.keyword}`, match),
+          );
+        }
+      }
+      return violations;
+    },
+  };
+};
+
+/**
+ * Finds the nearest `.fieldfinderrc.yaml`, looking in a directory and then its parents.
+ *
+ * @throws Error if there is none
+ */
+const findRulesFile = async (directory: string): Promise<string> => {
+  for (let current = directory; ; current = dirname(current)) {
+    const candidate = join(current, RULES_FILE_NAME);
+    try {
+      if ((await stat(candidate)).isFile()) {
+        return candidate;
+      }
+    } catch {
+      // Not in this directory
+    }
+    if (dirname(current) === current) {
+      throw new Error(`No ${RULES_FILE_NAME} found in ${directory} or its parent directories`);
+    }
+  }
+};
+
+/**
+ * Loads the rules of a configuration file, which holds them by name under
+ * `rules` (see {@link IRule}). Given a directory, or nothing, the nearest
+ * `.fieldfinderrc.yaml` in that directory (or the working directory) or one
+ * of its parents is loaded.
+ *
+ * @param configPath - A YAML or JSON configuration file, or the directory to look from
+ * @returns The rules by name
+ * @throws Error if no configuration file is found, or a rule is malformed
+ *
+ * @example
+ * import { loadRules } from './extract'
+ *
+ * // For /project/.fieldfinderrc.yaml containing:
+ * // rules:
+ * //   operation-owner:
+ * //     property: x-owner
+ * //     require: operations
+ *
+ * const rules = await loadRules('/project/specs')
+ * // Returns: { 'operation-owner': { property: 'x-owner', require: 'operations' } }
+ */
+export const loadRules = async (configPath: string = process.cwd()): Promise<IRuleSet> => {
+  const location = (await isDirectory(configPath))
+    ? await findRulesFile(resolve(configPath))
+    : resolve(configPath);
+  const { content } = parseSource(location, await readFile(location, "utf-8"));
+  const rules = (content as { rules?: unknown } | null)?.rules;
+  if (rules === null || typeof rules !== "object" || Array.isArray(rules)) {
+    throw new Error(`Invalid rules file ${location}: expected a map of rules under "rules"`);
+  }
+  for (const [name, rule] of Object.entries(rules)) {
+    compileRule(name, rule as IRule);
+  }
+  return rules as IRuleSet;
+};
+
+/**
+ * Checks searched files against rules, in one walk for all of them. Unlike
+ * the search functions, which only report where a property is, rules also
+ * report the objects where a required property is missing. Problems are
+ * collected by default, like `search`.
+ *
+ * @param filePathsToSearch - File paths, directories, glob patterns or URLs to check
+ * @param rules - Rules by name (see {@link loadRules})
+ * @param options - Optional search behavior (see {@link IRuleOptions})
+ * @returns The violations, in document order, and the diagnostics
+ * @throws Error if a rule is malformed
+ *
+ * @example
+ * import { checkRules, loadRules } from './extract'
+ *
+ * // For /project/api.yaml containing:
+ * // paths:
+ * //   /users:
+ * //     get:
+ * //       operationId: listUsers
+ * //   /teams:
+ * //     get:
+ * //       x-owner: payments
+ *
+ * const { violations } = await checkRules(['/project/api.yaml'], {
+ *   'operation-owner': { property: 'x-owner', require: 'operations', values: ['identity', 'billing'] },
+ * })
+ * // Returns:
+ * // [{
+ * //   rule: 'operation-owner',
+ * //   severity: 'error',
+ * //   message: 'Missing x-owner',
+ * //   path: 'paths./users.get',
+ * //   location: { file: '/project/api.yaml', line: 3, column: 5, jsonPointer: '/paths/~1users/get' },
+ * //   ...
+ * // }, {
+ * //   rule: 'operation-owner',
+ * //   severity: 'error',
+ * //   message: 'x-owner must be one of "identity", "billing"',
+ * //   path: 'paths./teams.get.x-owner',
+ * //   location: { file: '/project/api.yaml', line: 7, column: 7, jsonPointer: '/paths/~1teams/get/x-owner' },
+ * //   ...
+ * // }]
+ */
+export const checkRules = async (
+  filePathsToSearch: string[],
+  rules: IRuleSet,
+  options: IRuleOptions = {},
+): Promise<IRuleReport> => {
+  const compiled = Object.entries(rules).map(([name, rule]) => compileRule(name, rule));
+  // Violations in document order. Whether a required property is missing is
+  // only known after the walk, from the keys of the properties found.
+  const entries: Array<{ violation: IRuleViolation; missingKey?: string }> = [];
+  const required = new Set<string>();
+  const found = new Set<string>();
+  const diagnostics: IDiagnostic[] = [];
+
+  await searchFiles(
+    [...new Set(compiled.map((rule) => rule.property))],
+    filePathsToSearch,
+    {
+      ...options,
+      scope: undefined,
+      ordered: true,
+      onError: options.onError ?? "collect",
+      onDiagnostic: async (diagnostic) => {
+        diagnostics.push(diagnostic);
+        await options.onDiagnostic?.(diagnostic);
+      },
+      onObject: (object) => {
+        for (const rule of compiled) {
+          const violation = rule.checkObject(object);
+          const missingKey = getNodeKey(object.rootFile, [...object.segments, rule.property]);
+          if (violation && !required.has(`${violation.rule}:${missingKey}`)) {
+            required.add(`${violation.rule}:${missingKey}`);
+            entries.push({ violation, missingKey });
+          }
+        }
+      },
+    },
+    (match) => {
+      found.add(getNodeKey(match.rootFile, [...match.segments.slice(0, -1), match.key]));
+      for (const rule of compiled) {
+        entries.push(...rule.checkMatch(match).map((violation) => ({ violation })));
+      }
+    },
+  );
+
+  const violations = entries
+    .filter(({ missingKey }) => missingKey === undefined || !found.has(missingKey))
+    .map(({ violation }) => violation);
+  return { violations, diagnostics };
+};
+
+/**
+ * Finds every occurrence of a property, like `findMatches`, and changes it in the file
+ * where it is written, including external files reached through $ref. The transformer
+ * is called once per physical location (a property reached through YAML aliases is
+ * changed at its anchor), for the first match that reaches it, and all
+ * changes are written after the search completes. YAML comments and formatting are kept,
+ * and JSON files are only rewritten where a property changed.
+ *
+ * @param propertyToFind - The property key(s) to search for (see {@link PropertyMatcher})
+ * @param filePathsToSearch - File paths, directories or glob patterns to search
+ * @param transformer - Returns the change to make for each match (see {@link UpdateAction})
+ * @param options - Optional search behavior (see {@link IFindOptions})
+ * @returns Absolute paths of the files that were written
+ * @throws Error if a change targets a remote document, or renames a property onto an
+ * existing key
+ *
+ * @example
+ * import { update } from './extract'
+ *
+ * // Strip internal extensions before publishing
+ * await update('x-internal', ['path/to/api.yaml'], () => ({ remove: true }))
+ *
+ * @example
+ * // Bump a version inside an extension
+ * await update<{ version: number }>('x-sdk', ['path/to/api.yaml'], (match) => ({
+ *   set: { ...match.value, version: match.value.version + 1 },
+ * }))
+ */
+export const update = async <T>(
+  propertyToFind: PropertyMatcher,
+  filePathsToSearch: string[],
+  transformer: UpdateTransformer<T>,
+  options: IFindOptions = {},
+): Promise<string[]> => {
+  const fileCache = new Map<string, Promise<IParsedFile>>();
+  const changes: Array<{ file: string; segments: string[]; action: UpdateAction }> = [];
+  // Keys already handed to the transformer, by the object holding them. A
+  // YAML alias gives a property a second pointer running through the alias,
+  // so in YAML files the holder is the map the alias resolves to.
+  const seen = new Map<unknown, Set<string>>();
+
+  await searchFiles(
+    propertyToFind,
+    filePathsToSearch,
+    { ...options, ordered: true },
+    async (match) => {
+      const { file: filePath, jsonPointer } = match.location;
+      const segments = parseJsonPointer(`#${jsonPointer}`);
+      const holder =
+        (isYamlLocation(filePath)
+          ? getYamlParentMap(await (fileCache.get(filePath) as Promise<IParsedFile>), segments)
+          : undefined) ?? `${filePath}#${buildJsonPointer(segments.slice(0, -1))}`;
+      const key = segments[segments.length - 1];
+      const keys = seen.get(holder) ?? new Set<string>();
+      if (keys.has(key)) {
+        return;
+      }
+      seen.set(holder, keys.add(key));
+      const action = await transformer(match as IMatch<T>);
+      if (action) {
+        changes.push({ file: filePath, segments, action });
+      }
+    },
+    fileCache,
+  );
+
+  const changedFiles = [...new Set(changes.map((change) => change.file))];
+  const remoteFile = changedFiles.find(isUrl);
+  if (remoteFile) {
+    throw new Error(`Cannot update ${remoteFile}: remote documents are read-only`);
+  }
+
+  for (const { file: filePath, segments, action } of changes) {
+    const file = await (fileCache.get(filePath) as Promise<IParsedFile>);
+    if (isYamlLocation(filePath)) {
+      applyYamlUpdate(file, segments, action);
+    } else {
+      applyJsonUpdate(file, segments, action);
+    }
+  }
+
+  for (const filePath of changedFiles) {
+    const file = await (fileCache.get(filePath) as Promise<IParsedFile>);
+    await writeFile(filePath, serializeFile(file));
+  }
+
+  return changedFiles;
+};
+
+/**
+ * Options for the document cache of a finder (see {@link createFinder}).
+ */
+export interface IFinderCacheOptions {
+  /**
+   * Directory where parsed documents are also stored on disk, keyed by a hash
+   * of their content, so that later processes can skip parsing unchanged
+   * files. Documents are only cached in memory when omitted.
+   */
+  directory?: string;
+}
+
+/**
+ * Options for {@link createFinder}. The search options are defaults for every
+ * query made with the finder.
+ */
+export interface IFinderOptions extends IFindOptions {
+  /** How parsed documents are cached between queries */
+  cache?: IFinderCacheOptions;
+}
+
+/**
+ * Options for a single finder query. Loaders are fixed when the finder is
+ * created, since the cached documents were read with them.
+ */
+export type IFinderQueryOptions = Omit<IFindOptions, "loaders" | "http">;
+
+/**
+ * Search functions sharing one cache of parsed documents, created by
+ * {@link createFinder}. Each function works like the top-level function of
+ * the same name.
+ */
+export interface IFieldFinder {
+  find: <T>(
+    propertyToFind: PropertyMatcher,
+    filePathsToSearch: string[],
+    options?: IFinderQueryOptions,
+  ) => Promise<ISearchResult<T>>;
+  findByFile: <T>(
+    propertyToFind: PropertyMatcher,
+    filePathsToSearch: string[],
+    options?: IFinderQueryOptions,
+  ) => Promise<Record<string, ISearchResult<T>>>;
+  findMatches: <T>(
+    propertyToFind: PropertyMatcher,
+    filePathsToSearch: string[],
+    options?: IFinderQueryOptions,
+  ) => Promise<IMatch<T>[]>;
+  findWithCallback: <T>(
+    propertyToFind: PropertyMatcher,
+    filePathsToSearch: string[],
+    callback: FindCallback<T>,
+    options?: IFinderQueryOptions,
+  ) => Promise<void>;
+  findIter: <T>(
+    propertyToFind: PropertyMatcher,
+    filePathsToSearch: string[],
+    options?: IFinderQueryOptions,
+  ) => AsyncIterableIterator<IMatch<T>>;
+  search: <T>(
+    propertyToFind: PropertyMatcher,
+    filePathsToSearch: string[],
+    options?: IFinderQueryOptions,
+  ) => Promise<ISearchReport<T>>;
+  findMissing: (
+    propertyToFind: PropertyMatcher,
+    filePathsToSearch: string[],
+    options: IFinderQueryOptions & Pick<IFindMissingOptions, "at">,
+  ) => Promise<INode[]>;
+  findEffectiveValues: <T>(
+    propertyToFind: PropertyMatcher,
+    filePathsToSearch: string[],
+    options: Omit<IFinderQueryOptions, "scope"> & Pick<IEffectiveValueOptions, "at" | "precedence">,
+  ) => Promise<IEffectiveValue<T>[]>;
+  validate: (
+    propertyToFind: PropertyMatcher,
+    filePathsToSearch: string[],
+    schema: AnySchema,
+    options?: IFinderQueryOptions,
+  ) => Promise<IViolation[]>;
+  checkRules: (
+    filePathsToSearch: string[],
+    rules: IRuleSet,
+    options?: Omit<IFinderQueryOptions, "scope">,
+  ) => Promise<IRuleReport>;
+  /**
+   * Drops the cached document at `location` (a file path or URL), or every
+   * cached document when called without one. Entries on disk are kept, since
+   * they are keyed by content.
+   */
+  invalidate: (location?: string) => void;
+}
+
+/**
+ * A parsed document held by a finder, along with what it was parsed from.
+ */
+interface ICachedDocument {
+  file: IParsedFile;
+  /** Modification time and size of a local file when it was read */
+  stamp: string | undefined;
+  /** SHA-256 hash of the document text */
+  hash: string;
+}
+
+/** Bumped whenever the layout of the on-disk document cache changes */
+const DOCUMENT_CACHE_VERSION = 1;
+
+/**
+ * Returns the modification time and size of a local file, or `undefined` for
+ * URLs and files that cannot be stat'ed.
+ *
+ * @example
+ * await getFileStamp('/project/api.yaml')
+ * // Returns: '1760774400000:2048'
+ */
+const getFileStamp = async (location: string): Promise<string | undefined> => {
+  if (isUrl(location)) {
+    return undefined;
+  }
+  try {
+    const stats = await stat(location);
+    return `${stats.mtimeMs}:${stats.size}`;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Creates a parsed file from content read back from the on-disk cache. The
+ * yaml document is only parsed when a source location is first needed, so
+ * files without matches are never parsed.
+ */
+const createLazyParsedFile = (
+  filePath: string,
+  source: string,
+  content: Record<string, unknown>,
+): IParsedFile => {
+  let parsed: IParsedFile | undefined;
+  const parse = () => (parsed ??= parseSource(filePath, source));
+  return {
+    filePath,
+    source,
+    content,
+    get document() {
+      return parse().document;
+    },
+    get lineCounter() {
+      return parse().lineCounter;
+    },
+  };
+};
+
+/**
+ * Parses a document, reusing the content stored on disk for the same text
+ * when there is one and storing it otherwise. The disk cache is best-effort:
+ * unreadable entries are ignored and failed writes do not fail the search.
+ *
+ * @param location - Absolute path or URL of the document
+ * @param source - Text of the document
+ * @param hash - SHA-256 hash of the text
+ * @param directory - Directory of the on-disk cache, if any
+ * @returns The parsed document
+ */
+const parseWithDiskCache = async (
+  location: string,
+  source: string,
+  hash: string,
+  directory: string | undefined,
+): Promise<IParsedFile> => {
+  if (directory === undefined) {
+    return parseSource(location, source);
+  }
+
+  // YAML and JSON parse the same text differently, so they are cached apart
+  const cachePath = join(directory, `${hash}.${getDocumentFormat(location)}.json`);
+  try {
+    const cached = JSON.parse(await readFile(cachePath, "utf-8")) as {
+      version: number;
+      content: Record<string, unknown>;
+    };
+    if (cached.version === DOCUMENT_CACHE_VERSION) {
+      return createLazyParsedFile(location, source, cached.content);
+    }
+  } catch {
+    // Not cached yet, or unreadable
+  }
+
+  const file = parseSource(location, source);
+  // Skip content that JSON cannot hold exactly, such as .inf and .nan
+  let exact = true;
+  const serialized = JSON.stringify(
+    { version: DOCUMENT_CACHE_VERSION, content: file.content },
+    (_key, value: unknown) => {
+      if (typeof value === "number" && !Number.isFinite(value)) {
+        exact = false;
+      }
+      return value;
+    },
+  );
+  if (exact) {
+    try {
+      await mkdir(directory, { recursive: true });
+      const temporaryPath = `${cachePath}.${process.pid}.tmp`;
+      await writeFile(temporaryPath, serialized);
+      await rename(temporaryPath, cachePath);
+    } catch {
+      // The cache only saves time; searching works without it
+    }
+  }
+  return file;
+};
+
+/**
+ * Parses documents through a cache kept across searches (see {@link createCachedParser}).
+ */
+interface ICachedParser {
+  /** Parses a document, reusing the cached one while its file is unchanged */
+  parse: FileParser;
+  /** Drops the cached document at `location`, or every cached document */
+  invalidate: (location?: string) => void;
+}
+
+/**
+ * Creates a parser that keeps parsed documents between searches. Before a
+ * cached local file is reused, its modification time and size are checked;
+ * when they changed, the file is read again and only re-parsed if its content
+ * hash changed too. Remote documents are kept until they are invalidated.
+ *
+ * @param loaders - Loaders to read documents with
+ * @param directory - Directory of the on-disk cache, if any
+ * @returns The parser
+ *
+ * @example
+ * const parser = createCachedParser([createFileLoader()], undefined)
+ * await parser.parse('/project/api.yaml') // reads and parses
+ * await parser.parse('/project/api.yaml') // Returns: the same parsed file
+ */
+const createCachedParser = (
+  loaders: IDocumentLoader[],
+  directory: string | undefined,
+): ICachedParser => {
+  const documents = new Map<string, ICachedDocument>();
+
+  return {
+    parse: async (location) => {
+      const cached = documents.get(location);
+      const stamp = await getFileStamp(location);
+      if (cached && (isUrl(location) || (stamp !== undefined && stamp === cached.stamp))) {
+        return cached.file;
+      }
+
+      const source = await readSource(location, loaders);
+      const hash = createHash("sha256").update(source).digest("hex");
+      if (cached?.hash === hash) {
+        cached.stamp = stamp;
+        return cached.file;
+      }
+
+      const file = await parseWithDiskCache(location, source, hash, directory);
+      documents.set(location, { file, stamp, hash });
+      return file;
+    },
+    invalidate: (location) => {
+      if (location === undefined) {
+        documents.clear();
+      } else {
+        documents.delete(toLocation(location));
+      }
+    },
+  };
+};
+
+/**
+ * Creates a finder: the search functions, sharing parsed documents between
+ * queries (see {@link createCachedParser} for when a document is reused).
+ *
+ * @param options - Cache options, and search options used as defaults for every query
+ * @returns The finder
+ *
+ * @example
+ * import { createFinder } from './extract'
+ *
+ * const finder = createFinder({ cache: { directory: '.cache/field-finder' } })
+ *
+ * // Both queries parse api.yaml (and the files it references) once
+ * const owners = await finder.find('x-owner', ['path/to/api.yaml'])
+ * const internal = await finder.findMatches('x-internal', ['path/to/api.yaml'])
+ */
+export const createFinder = (options: IFinderOptions = {}): IFieldFinder => {
+  const { cache, ...defaults } = options;
+  const { parse, invalidate } = createCachedParser(getLoaders(options), cache?.directory);
+
+  const withCache = (queryOptions: IFinderQueryOptions = {}): ISearchOptions => ({
+    ...defaults,
+    ...queryOptions,
+    parse,
+  });
+
+  return {
+    find: (propertyToFind, filePathsToSearch, queryOptions) =>
+      find(propertyToFind, filePathsToSearch, withCache(queryOptions)),
+    findByFile: (propertyToFind, filePathsToSearch, queryOptions) =>
+      findByFile(propertyToFind, filePathsToSearch, withCache(queryOptions)),
+    findMatches: (propertyToFind, filePathsToSearch, queryOptions) =>
+      findMatches(propertyToFind, filePathsToSearch, withCache(queryOptions)),
+    findWithCallback: (propertyToFind, filePathsToSearch, callback, queryOptions) =>
+      findWithCallback(propertyToFind, filePathsToSearch, callback, withCache(queryOptions)),
+    findIter: (propertyToFind, filePathsToSearch, queryOptions) =>
+      findIter(propertyToFind, filePathsToSearch, withCache(queryOptions)),
+    search: (propertyToFind, filePathsToSearch, queryOptions) =>
+      search(propertyToFind, filePathsToSearch, withCache(queryOptions)),
+    findMissing: (propertyToFind, filePathsToSearch, queryOptions) =>
+      findMissing(propertyToFind, filePathsToSearch, { ...withCache(queryOptions), at: queryOptions.at }),
+    findEffectiveValues: (propertyToFind, filePathsToSearch, queryOptions) =>
+      findEffectiveValues(propertyToFind, filePathsToSearch, {
+        ...withCache(queryOptions),
+        at: queryOptions.at,
+      }),
+    validate: (propertyToFind, filePathsToSearch, schema, queryOptions) =>
+      validate(propertyToFind, filePathsToSearch, schema, withCache(queryOptions)),
+    checkRules: (filePathsToSearch, rules, queryOptions) =>
+      checkRules(filePathsToSearch, rules, withCache(queryOptions)),
+    invalidate,
+  };
+};
+
+/**
+ * Matches that appeared, disappeared or got a different value since the
+ * previous report of a {@link watch}. Matches are identified by their root
+ * file and path.
+ */
+export interface IMatchChanges<T> {
+  /** Matches at paths that had no match before, in document order */
+  added: IMatch<T>[];
+  /** Previous matches at paths that no longer have one */
+  removed: IMatch<T>[];
+  /** Matches whose value changed, along with the previous match */
+  changed: Array<{ previous: IMatch<T>; match: IMatch<T> }>;
+}
+
+/**
+ * Options for {@link watch}.
+ */
+export interface IWatchOptions extends IFindOptions {
+  /** Milliseconds to wait for more file events before searching again (default: 50) */
+  debounce?: number;
+  /**
+   * Invoked with errors from searching again, from `onChange` or from the
+   * file system watchers (default: logs them with `console.error`)
+   */
+  onWatchError?: (error: unknown) => void;
+}
+
+/**
+ * A running {@link watch}.
+ */
+export interface IWatcher {
+  /** Stops watching, and resolves once a search in progress has finished */
+  close: () => Promise<void>;
+}
+
+/**
+ * Compares the matches of one root file before and after a change. Matches
+ * are paired by path; moving within a file without changing value is not a change.
+ *
+ * @example
+ * diffMatches([{ path: 'a.x-foo', value: 1, ... }], [{ path: 'a.x-foo', value: 2, ... }])
+ * // Returns: { added: [], removed: [], changed: [{ previous: <value 1>, match: <value 2> }] }
+ */
+const diffMatches = <T>(previous: IMatch<T>[], next: IMatch<T>[]): IMatchChanges<T> => {
+  const getKey = (match: IMatch<T>) => JSON.stringify(match.segments);
+  const before = new Map(previous.map((match) => [getKey(match), match]));
+  const after = new Set(next.map(getKey));
+  const changes: IMatchChanges<T> = { added: [], removed: [], changed: [] };
+
+  for (const match of next) {
+    const earlier = before.get(getKey(match));
+    if (!earlier) {
+      changes.added.push(match);
+    } else if (!isDeepStrictEqual(earlier.value, match.value)) {
+      changes.changed.push({ previous: earlier, match });
+    }
+  }
+  changes.removed = previous.filter((match) => !after.has(getKey(match)));
+  return changes;
+};
+
+/**
+ * Watches files for changes and reports how the matches of a property change.
+ * Every file reached from a root file through external $refs is watched
+ * (remote documents are not), and when one changes only the root files that
+ * reach it are searched again. Unchanged files are not parsed again.
+ *
+ * The initial matches are reported as added before the returned promise
+ * resolves. Problems are collected by default, like `search`, so a file that
+ * is briefly broken while being edited does not stop the watch; set
+ * `onDiagnostic` to see them. Directories and glob patterns are expanded
+ * once, when the watch starts.
+ *
+ * @param propertyToFind - The property key(s) to search for (see {@link PropertyMatcher})
+ * @param filePathsToSearch - File paths, directories, glob patterns or URLs to search
+ * @param onChange - Invoked (and awaited) with each non-empty set of changes
+ * @param options - Search options, plus `debounce` and `onWatchError`
+ * @returns The watcher, once the initial search has been reported
+ *
+ * @example
+ * import { watch } from './extract'
+ *
+ * const watcher = await watch('x-owner', ['specs/api.yaml'], ({ added, removed, changed }) => {
+ *   for (const match of added) console.log('+', match.path, match.value)
+ *   for (const match of removed) console.log('-', match.path)
+ *   for (const { match } of changed) console.log('~', match.path, match.value)
+ * })
+ *
+ * // Later
+ * await watcher.close()
+ */
+export const watch = async <T>(
+  propertyToFind: PropertyMatcher,
+  filePathsToSearch: string[],
+  onChange: (changes: IMatchChanges<T>) => void | Promise<void>,
+  options: IWatchOptions = {},
+): Promise<IWatcher> => {
+  const {
+    debounce = 50,
+    onWatchError = (error: unknown) => console.error(error),
+    ...searchOptions
+  } = options;
+  const parser = createCachedParser(getLoaders(options), undefined);
+  const roots = await getRootFiles(filePathsToSearch, searchOptions, new Map(), parser.parse);
+  const results = new Map<string, { matches: IMatch<T>[]; files: Set<string> }>();
+  const watchers = new Map<string, FSWatcher>();
+  let changedFiles = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running = Promise.resolve();
+  let closed = false;
+
+  // Each root is searched on its own to learn which files it depends on
+  const searchRoot = async (root: string) => {
+    const files = new Set<string>();
+    const rootOptions: ISearchOptions = {
+      onError: "collect",
+      ...searchOptions,
+      parse: (location) => {
+        files.add(location);
+        return parser.parse(location);
+      },
+    };
+    const matches = await findMatches<T>(propertyToFind, [root], rootOptions);
+    return { matches, files };
+  };
+
+  const onFileEvent = (directory: string, filename: string | null) => {
+    // The event may be for a directory that files depend on, such as a new
+    // one holding a missing $ref target. Some platforms leave out the name.
+    const changedPath = filename ? join(directory, filename) : directory;
+    for (const result of results.values()) {
+      for (const file of result.files) {
+        if (file === changedPath || file.startsWith(`${changedPath}${sep}`)) {
+          changedFiles.add(file);
+        }
+      }
+    }
+    if (changedFiles.size > 0 && !closed) {
+      clearTimeout(timer);
+      timer = setTimeout(flush, debounce);
+    }
+  };
+
+  // Editors often save by replacing files, so directories are watched rather
+  // than files. A missing directory is watched through its nearest existing ancestor.
+  const syncWatchers = () => {
+    const watched = new Set<string>();
+    for (const result of results.values()) {
+      for (const file of result.files) {
+        if (isUrl(file)) {
+          continue;
+        }
+        for (let directory = dirname(file); !watched.has(directory); directory = dirname(directory)) {
+          try {
+            if (!watchers.has(directory)) {
+              const watcher = watchFileSystem(directory, (_event, filename) =>
+                onFileEvent(directory, filename),
+              );
+              watcher.on("error", onWatchError);
+              watchers.set(directory, watcher);
+            }
+            watched.add(directory);
+            break;
+          } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "ENOENT" || dirname(directory) === directory) {
+              break;
+            }
+          }
+        }
+      }
+    }
+    for (const [directory, watcher] of watchers) {
+      if (!watched.has(directory)) {
+        watcher.close();
+        watchers.delete(directory);
+      }
+    }
+  };
+
+  const searchAgain = async (files: Set<string>) => {
+    if (closed) {
+      return;
+    }
+    const changes: IMatchChanges<T> = { added: [], removed: [], changed: [] };
+    for (const file of files) {
+      parser.invalidate(file);
+    }
+    for (const root of roots) {
+      const previous = results.get(root);
+      if (!previous || ![...files].some((file) => previous.files.has(file))) {
+        continue;
+      }
+      const next = await searchRoot(root);
+      const rootChanges = diffMatches(previous.matches, next.matches);
+      changes.added.push(...rootChanges.added);
+      changes.removed.push(...rootChanges.removed);
+      changes.changed.push(...rootChanges.changed);
+      results.set(root, next);
+    }
+    if (closed) {
+      return;
+    }
+    syncWatchers();
+    if (changes.added.length + changes.removed.length + changes.changed.length > 0) {
+      await onChange(changes);
+    }
+  };
+
+  const flush = () => {
+    timer = undefined;
+    const files = changedFiles;
+    changedFiles = new Set();
+    running = running.then(() => searchAgain(files)).catch(onWatchError);
+  };
+
+  for (const root of roots) {
+    results.set(root, await searchRoot(root));
+  }
+  syncWatchers();
+  const initial = [...results.values()].flatMap((result) => result.matches);
+  if (initial.length > 0) {
+    await onChange({ added: initial, removed: [], changed: [] });
+  }
+
+  return {
+    close: async () => {
+      closed = true;
+      clearTimeout(timer);
+      for (const watcher of watchers.values()) {
+        watcher.close();
+      }
+      watchers.clear();
+      await running;
+    },
+  };
+};
+
+/**
+ * Options for `bundle` and `dereference`.
+ */
+export type IBundleOptions = Pick<IFindOptions, "loaders" | "http">;
+
+/**
+ * Resolves a $ref written in `file` the same way the search walker does,
+ * including `$id` and `$anchor` refs in OpenAPI 3.1 documents.
+ *
+ * @param ref - The $ref value
+ * @param file - The file the ref is written in
+ * @param pointer - JSON Pointer segments of the object holding the ref
+ * @param context - The spec version, file cache, parser and schema resources
+ * @returns The target
+ * @throws Error if the referenced file cannot be loaded or the target does not exist
+ *
+ * @example
+ * await resolveRefTarget('./common.yaml#/Error', apiFile, ['paths', '/users'], context)
+ * // Returns: { file: <common.yaml>, value: { type: 'object' }, pointer: ['Error'] }
+ */
+const resolveRefTarget = async (
+  ref: string,
+  file: IParsedFile,
+  pointer: string[],
+  context: Pick<IWalkContext, "specVersion" | "fileCache" | "parse" | "resources">,
+): Promise<IExternalRefResult> => {
+  const baseUri =
+    context.specVersion === "3.1" ? getBaseUriAt(file, [...pointer, "$ref"]) : file.filePath;
+  const target = await resolveWalkRef(ref, false, file, { baseUri, dynamicScope: [] }, context);
+  if ("kind" in target) {
+    throw target.error ?? new Error(target.message);
+  }
+  return target;
+};
+
+/**
+ * Picks the `components` section an external $ref target is moved into,
+ * from the target pointer when it already names a component, or else from
+ * where the $ref is written. Returns null for path items, which OpenAPI 3.0
+ * cannot reference from `components`, so they are inlined instead.
+ *
+ * @example
+ * getBundleComponentType(['paths', '/users', 'get', 'parameters', '0'], ['limit'])
+ * // Returns: 'parameters'
+ *
+ * @example
+ * getBundleComponentType(['paths', '/users'], [])
+ * // Returns: null
+ *
+ * @example
+ * // Swagger 2.0 documents use the top-level sections instead
+ * getBundleComponentType(['paths', '/users', 'get', 'parameters', '0'], ['limit'], '2.0')
+ * // Returns: 'parameters'
+ */
+const getBundleComponentType = (
+  outputPath: string[],
+  targetPointer: string[],
+  specVersion: SpecVersion = "3.0",
+): string | null => {
+  if (specVersion === "2.0") {
+    if (targetPointer.length === 2 && Object.hasOwn(SWAGGER_COMPONENT_SECTIONS, targetPointer[0])) {
+      return targetPointer[0];
+    }
+    if (outputPath.length === 2 && Object.hasOwn(SWAGGER_COMPONENT_SECTIONS, outputPath[0])) {
+      return outputPath[0];
+    }
+    const type = getBundleComponentType(outputPath, targetPointer);
+    return (
+      Object.keys(SWAGGER_COMPONENT_SECTIONS).find(
+        (section) => SWAGGER_COMPONENT_SECTIONS[section] === type,
+      ) ?? null
+    );
+  }
+
+  if (targetPointer.length === 3 && targetPointer[0] === "components") {
+    return targetPointer[1];
+  }
+  if (outputPath.length === 3 && outputPath[0] === "components") {
+    return outputPath[1];
+  }
+  if (outputPath.length === 2 && outputPath[0] === "paths") {
+    return null;
+  }
+
+  const [grandparent, parent, key] = outputPath.slice(-3);
+  if (parent === "properties" || grandparent === "properties") {
+    return "schemas";
+  }
+  if (key === "requestBody") {
+    return "requestBodies";
+  }
+  const typeByParent: Record<string, string> = {
+    parameters: "parameters",
+    responses: "responses",
+    headers: "headers",
+    examples: "examples",
+    links: "links",
+    callbacks: "callbacks",
+  };
+  return typeByParent[parent] ?? "schemas";
+};
+
+/**
+ * Bundles an OpenAPI document and every file it references into one
+ * self-contained document. External $ref targets are moved into
+ * `components` (named after the target, or after the file when the whole
+ * file is referenced) and the refs are rewritten to point at them; each
+ * target is moved once, however many refs reach it. Swagger 2.0 documents
+ * use `definitions`, `parameters` and `responses` instead. Keys next to an
+ * external $ref are kept and bundled too. External path items, and objects
+ * 2.0 has no section for, are inlined; one that leads back to itself is
+ * pointed at its inlined copy. Local refs in the entry file are kept as they
+ * are. Refs are resolved exactly as `find` resolves them, including `$id`
+ * and `$anchor` refs in OpenAPI 3.1.
+ *
+ * @param entryFile - Path (or URL) of the root OpenAPI document
+ * @param options - Loaders used to read referenced documents
+ * @returns The bundled document
+ * @throws Error if a referenced file cannot be loaded or a pointer does not exist
+ *
+ * @example
+ * // api.yaml:
+ * // paths:
+ * //   /users:
+ * //     get:
+ * //       responses:
+ * //         '200':
+ * //           content:
+ * //             application/json:
+ * //               schema:
+ * //                 $ref: './schemas/user.yaml'
+ *
+ * const document = await bundle('api.yaml')
+ * // document.paths['/users'].get.responses['200'].content['application/json'].schema
+ * // Returns: { $ref: '#/components/schemas/user' }
+ * // document.components.schemas.user
+ * // Returns: <contents of schemas/user.yaml>
+ */
+export const bundle = async (
+  entryFile: string,
+  options: IBundleOptions = {},
+): Promise<Record<string, unknown>> => {
+  const parse: FileParser = (location) => parseFile(location, getLoaders(options));
+  const fileCache = new Map<string, Promise<IParsedFile>>();
+  const entry = await parse(toLocation(entryFile));
+  fileCache.set(entry.filePath, Promise.resolve(entry));
+
+  // Swagger 2.0 keeps reusable objects in top-level sections
+  const specVersion = getSpecVersion(entry.content);
+  const refContext = { specVersion, fileCache, parse, resources: new Map<string, ISchemaResource>() };
+  const getSectionPath = (type: string) =>
+    specVersion === "2.0" ? [type] : ["components", type];
+  const hoisted: Record<string, Record<string, unknown>> = {};
+  const targetRefs = new Map<string, string>();
+  // Output pointer of each path item being inlined, by "file#pointer"
+  const inlining = new Map<string, string>();
+
+  const reserveComponentName = (type: string, name: string): string => {
+    const baseName = name.replace(/[^A-Za-z0-9._-]/g, "_") || "component";
+    const existing = (getValueAtPointer(entry.content, getSectionPath(type)) ?? {}) as object;
+    const taken = (candidate: string) => candidate in existing || candidate in (hoisted[type] ?? {});
+    let candidate = baseName;
+    for (let i = 2; taken(candidate); i++) {
+      candidate = `${baseName}_${i}`;
+    }
+    (hoisted[type] ??= {})[candidate] = null;
+    return candidate;
+  };
+
+  const bundleValue = async (
+    value: unknown,
+    file: IParsedFile,
+    sourcePointer: string[],
+    outputPath: string[],
+  ): Promise<unknown> => {
+    if (value === null || typeof value !== "object") {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      const items: unknown[] = [];
+      for (let i = 0; i < value.length; i++) {
+        items.push(
+          await bundleValue(value[i], file, [...sourcePointer, String(i)], [...outputPath, String(i)]),
+        );
+      }
+      return items;
+    }
+
+    const record = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(record)) {
+      result[key] = await bundleValue(child, file, [...sourcePointer, key], [...outputPath, key]);
+    }
+
+    const ref = record.$ref;
+    if (typeof ref === "string" && !(file === entry && ref.startsWith("#"))) {
+      const target = await resolveRefTarget(ref, file, sourcePointer, refContext);
+      const targetId = `${target.file.filePath}#${buildJsonPointer(target.pointer)}`;
+
+      if (target.file === entry) {
+        return { ...result, $ref: `#${buildJsonPointer(target.pointer)}` };
+      }
+
+      let localRef = targetRefs.get(targetId) ?? inlining.get(targetId);
+      if (!localRef) {
+        const type = getBundleComponentType(outputPath, target.pointer, specVersion);
+        if (type === null) {
+          // A path item that leads back to itself points at its inlined copy
+          inlining.set(targetId, `#${buildJsonPointer(outputPath)}`);
+          const inlined = await bundleValue(target.value, target.file, target.pointer, outputPath);
+          inlining.delete(targetId);
+          return inlined;
+        }
+        const fileName = basename(
+          isUrl(target.file.filePath) ? new URL(target.file.filePath).pathname : target.file.filePath,
+        ).replace(/\.[^.]*$/, "");
+        const name = reserveComponentName(type, target.pointer.at(-1) ?? fileName);
+        localRef = `#${buildJsonPointer([...getSectionPath(type), name])}`;
+        targetRefs.set(targetId, localRef);
+        const bundled = await bundleValue(
+          target.value,
+          target.file,
+          target.pointer,
+          [...getSectionPath(type), name],
+        );
+        hoisted[type][name] = bundled;
+      }
+      return { ...result, $ref: localRef };
+    }
+    return result;
+  };
+
+  const document = (await bundleValue(entry.content, entry, [], [])) as Record<string, unknown>;
+  if (Object.keys(hoisted).length > 0) {
+    const sections = (
+      specVersion === "2.0" ? document : { ...(document.components as object) }
+    ) as Record<string, Record<string, unknown>>;
+    for (const [type, entries] of Object.entries(hoisted)) {
+      sections[type] = { ...sections[type], ...entries };
+    }
+    if (specVersion !== "2.0") {
+      document.components = sections;
+    }
+  }
+  return document;
+};
+
+/**
+ * Builds a copy of an OpenAPI document with every $ref, local or external,
+ * replaced by its target. Keys written next to a $ref are kept and take
+ * precedence over the target's. A $ref that leads back into an object it is
+ * nested in cannot be inlined; it is rewritten to point at that object in
+ * the output instead, so every $ref left in the result is circular and the
+ * result can still be serialized as JSON or YAML. Refs are resolved as in
+ * {@link bundle}.
+ *
+ * @param entryFile - Path (or URL) of the root OpenAPI document
+ * @param options - Loaders used to read referenced documents
+ * @returns The dereferenced document
+ * @throws Error if a referenced file cannot be loaded or a pointer does not exist
+ *
+ * @example
+ * // api.yaml:
+ * // components:
+ * //   schemas:
+ * //     Node:
+ * //       properties:
+ * //         next:
+ * //           $ref: '#/components/schemas/Node'
+ *
+ * const document = await dereference('api.yaml')
+ * // document.components.schemas.Node.properties.next
+ * // Returns: { $ref: '#/components/schemas/Node' }
+ */
+export const dereference = async (
+  entryFile: string,
+  options: IBundleOptions = {},
+): Promise<Record<string, unknown>> => {
+  const parse: FileParser = (location) => parseFile(location, getLoaders(options));
+  const fileCache = new Map<string, Promise<IParsedFile>>();
+  const entry = await parse(toLocation(entryFile));
+  fileCache.set(entry.filePath, Promise.resolve(entry));
+  const refContext = {
+    specVersion: getSpecVersion(entry.content),
+    fileCache,
+    parse,
+    resources: new Map<string, ISchemaResource>(),
+  };
+
+  // Output pointer of each source object currently being copied, by "file#pointer"
+  const ancestors = new Map<string, string>();
+
+  const dereferenceValue = async (
+    value: unknown,
+    file: IParsedFile,
+    sourcePointer: string[],
+    outputPointer: string[],
+  ): Promise<unknown> => {
+    if (value === null || typeof value !== "object") {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      const items: unknown[] = [];
+      for (let i = 0; i < value.length; i++) {
+        items.push(
+          await dereferenceValue(value[i], file, [...sourcePointer, String(i)], [...outputPointer, String(i)]),
+        );
+      }
+      return items;
+    }
+
+    const record = value as Record<string, unknown>;
+    const id = `${file.filePath}#${buildJsonPointer(sourcePointer)}`;
+    ancestors.set(id, buildJsonPointer(outputPointer));
+
+    const copy: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(record)) {
+      if (key !== "$ref" || typeof child !== "string") {
+        copy[key] = await dereferenceValue(child, file, [...sourcePointer, key], [...outputPointer, key]);
+      }
+    }
+
+    let result: unknown = copy;
+    if (typeof record.$ref === "string") {
+      const target = await resolveRefTarget(record.$ref, file, sourcePointer, refContext);
+      const targetId = `${target.file.filePath}#${buildJsonPointer(target.pointer)}`;
+      const circularPointer = ancestors.get(targetId);
+      const resolved =
+        circularPointer !== undefined
+          ? { $ref: `#${circularPointer}` }
+          : await dereferenceValue(target.value, target.file, target.pointer, outputPointer);
+      result =
+        Object.keys(copy).length > 0 && resolved !== null && typeof resolved === "object"
+          ? { ...resolved, ...copy }
+          : resolved;
+    }
+
+    ancestors.delete(id);
+    return result;
+  };
+
+  return (await dereferenceValue(entry.content, entry, [], [])) as Record<string, unknown>;
 };